@@ -0,0 +1,316 @@
+// Microphone analysis for the drum listener, off the main thread: spectral-flux onset detection on small hops,
+// then features of the audio right after each onset. Results go out through the port:
+//   { type: 'onset', time, strength, features: { mfcc, spectralCentroid, spectralRolloff, zcr, energy, rms }, samples? }
+//     samples is the raw audio from the feature window's start, only sent when onsetSamples is set
+//   { type: 'level', time, rms }   every levelInterval seconds
+//   { type: 'flushed' }   answers a { type: 'flush' } message, after the onsets still held back have been sent;
+//                         used at the end of an offline render, when no more input will come
+// time is on the AudioContext clock. Settings come in once, as processorOptions (see src/lib/onsetDetection.ts).
+// Plain JavaScript: it is loaded as-is by audioWorklet.addModule.
+
+const DEFAULT_OPTIONS = {
+  frameSize: 1024,
+  hopSize: 128,
+  thresholdFrames: 32,
+  thresholdMultiplier: 1.5,
+  thresholdOffset: 0.02,
+  peakFrames: 3,
+  minInterval: 0.02,
+  featureWindow: 1024,
+  featurePreroll: 0.002,
+  onsetSamples: 0,
+  levelInterval: 0.05,
+};
+
+// Input kept for taking features once an onset is reported; a power of two, and more than onsetSamples
+const RING_SIZE = 32768;
+const MEL_BANDS = 26;
+const MFCC_COEFFICIENTS = 13;
+
+const hannWindow = size => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  return window;
+};
+
+// In-place radix-2 FFT; re and im have the same power-of-two length
+const createFFT = size => {
+  const bits = Math.log2(size);
+  const reversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    reversed[i] = r;
+  }
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = -Math.sin((2 * Math.PI * i) / size);
+  }
+
+  return (re, im) => {
+    for (let i = 0; i < size; i++) {
+      const j = reversed[i];
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+    for (let length = 2; length <= size; length *= 2) {
+      const half = length / 2;
+      const stride = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const a = start + k;
+          const b = a + half;
+          const wr = cos[k * stride];
+          const wi = sin[k * stride];
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+  };
+};
+
+// Triangular filters evenly spaced on the mel scale, from 0 Hz to Nyquist, over the power spectrum's bins
+const createMelFilters = (bins, sampleRate) => {
+  const toMel = hz => 1127 * Math.log(1 + hz / 700);
+  const fromMel = mel => 700 * (Math.exp(mel / 1127) - 1);
+  const maxMel = toMel(sampleRate / 2);
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor((fromMel((maxMel * i) / (MEL_BANDS + 1)) / (sampleRate / 2)) * (bins - 1))
+  );
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const [low, centre, high] = [edges[band], edges[band + 1], edges[band + 2]];
+    const weights = new Float32Array(bins);
+    for (let bin = low; bin <= high; bin++) {
+      weights[bin] = bin <= centre
+        ? (centre === low ? 1 : (bin - low) / (centre - low))
+        : (high === centre ? 1 : (high - bin) / (high - centre));
+    }
+    return weights;
+  });
+};
+
+const median = values => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+class DrumListenerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...(options.processorOptions || {}) };
+    const { frameSize, featureWindow } = this.options;
+
+    this.ring = new Float32Array(RING_SIZE);
+    this.written = 0; // Absolute frame index one past the newest sample in the ring
+    this.nextHopEnd = frameSize;
+
+    this.fluxFFT = createFFT(frameSize);
+    this.fluxWindow = hannWindow(frameSize);
+    this.fluxRe = new Float32Array(frameSize);
+    this.fluxIm = new Float32Array(frameSize);
+    this.previousMagnitudes = new Float32Array(frameSize / 2);
+    this.hasPreviousFrame = false;
+    this.flux = [];
+    this.held = null; // Best peak of the current attack, reported once minInterval passes without a stronger one
+    this.pendingOnsets = []; // Reported onsets waiting for their feature window to arrive
+
+    this.featureFFT = createFFT(featureWindow);
+    this.featureWindowShape = hannWindow(featureWindow);
+    this.melFilters = createMelFilters(featureWindow / 2, sampleRate);
+
+    this.levelSum = 0;
+    this.levelCount = 0;
+    this.port.onmessage = event => event.data.type === 'flush' && this.flush();
+  }
+
+  flush() {
+    if (this.held) this.pendingOnsets.push(this.held);
+    this.held = null;
+    this.sendReadyOnsets(true);
+    this.port.postMessage({ type: 'flushed' });
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    const blockStart = currentFrame;
+    for (let i = 0; i < input.length; i++) {
+      this.ring[(blockStart + i) & (RING_SIZE - 1)] = input[i];
+      this.levelSum += input[i] * input[i];
+    }
+    this.written = blockStart + input.length;
+    this.levelCount += input.length;
+
+    if (this.levelCount >= this.options.levelInterval * sampleRate) {
+      this.port.postMessage({ type: 'level', time: this.written / sampleRate, rms: Math.sqrt(this.levelSum / this.levelCount) });
+      this.levelSum = 0;
+      this.levelCount = 0;
+    }
+
+    // A capture that started late or skipped blocks begins analysing from what is there
+    if (this.nextHopEnd < this.written - RING_SIZE + this.options.frameSize) this.nextHopEnd = this.written;
+    while (this.nextHopEnd <= this.written) {
+      this.analyseFrame(this.nextHopEnd);
+      this.nextHopEnd += this.options.hopSize;
+    }
+    this.sendReadyOnsets();
+    return true;
+  }
+
+  copyFromRing(start, target) {
+    for (let i = 0; i < target.length; i++) {
+      target[i] = start + i < this.written ? this.ring[(start + i) & (RING_SIZE - 1)] : 0;
+    }
+  }
+
+  analyseFrame(end) {
+    const { frameSize, hopSize, thresholdFrames, peakFrames, minInterval } = this.options;
+    // Under the Hann window flux peaks once an attack is about three quarters of the way into the frame
+    const frameTime = (end - frameSize / 4) / sampleRate;
+    this.flux.push({ value: this.spectralFlux(end - frameSize), time: frameTime });
+    if (this.flux.length > thresholdFrames + 2 * peakFrames + 1) this.flux.shift();
+
+    const onset = this.pickPeak();
+    const judgedTime = frameTime - (peakFrames * hopSize) / sampleRate;
+    if (this.held && (onset ? onset.time : judgedTime) - this.held.time >= minInterval) {
+      this.pendingOnsets.push(this.held);
+      this.held = null;
+    }
+    if (onset && (!this.held || onset.strength > this.held.strength)) this.held = onset;
+  }
+
+  spectralFlux(start) {
+    const { frameSize } = this.options;
+    const re = this.fluxRe;
+    const im = this.fluxIm;
+    this.copyFromRing(start, re);
+    for (let i = 0; i < frameSize; i++) {
+      re[i] *= this.fluxWindow[i];
+      im[i] = 0;
+    }
+    this.fluxFFT(re, im);
+
+    // Log compression keeps quiet high-frequency detail, where hat attacks live, from being swamped
+    const bins = frameSize / 2;
+    let sum = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.log1p(100 * Math.hypot(re[bin], im[bin]));
+      if (this.hasPreviousFrame) sum += Math.max(0, magnitude - this.previousMagnitudes[bin]);
+      this.previousMagnitudes[bin] = magnitude;
+    }
+    this.hasPreviousFrame = true;
+    return sum / bins;
+  }
+
+  pickPeak() {
+    const { hopSize, thresholdFrames, thresholdMultiplier, thresholdOffset, peakFrames } = this.options;
+    const flux = this.flux;
+    const candidate = flux.length - 1 - peakFrames;
+    if (candidate < 1) return null;
+
+    const { value, time } = flux[candidate];
+    for (let i = candidate - peakFrames; i <= candidate + peakFrames; i++) {
+      if (i >= 0 && i !== candidate && flux[i].value >= value && (i > candidate || flux[i].value > value)) return null;
+    }
+    const recent = flux.slice(Math.max(0, candidate - thresholdFrames), candidate + peakFrames + 1).map(f => f.value);
+    if (value <= thresholdMultiplier * median(recent) + thresholdOffset) return null;
+
+    // Between frames: fit a parabola through the peak and its neighbours
+    const before = flux[candidate - 1].value;
+    const after = flux[candidate + 1].value;
+    const curvature = before - 2 * value + after;
+    const shift = curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (before - after)) / curvature)) : 0;
+    return { time: time + (shift * hopSize) / sampleRate, strength: value };
+  }
+
+  // At the end of the input a window that will never fill up is taken as it is, padded with silence
+  sendReadyOnsets(isEnd = false) {
+    const { featureWindow, featurePreroll, onsetSamples } = this.options;
+    const needed = Math.min(Math.max(featureWindow, onsetSamples), RING_SIZE / 2);
+    this.pendingOnsets = this.pendingOnsets.filter(onset => {
+      const start = Math.round((onset.time - featurePreroll) * sampleRate);
+      if (start + needed > this.written && !isEnd) return true;
+      // Scrolled out of the ring before its window arrived; only happens if blocks were dropped
+      if (start < this.written - RING_SIZE) return false;
+
+      const message = { type: 'onset', time: onset.time, strength: onset.strength, features: this.extractFeatures(start) };
+      if (onsetSamples > 0) {
+        message.samples = new Float32Array(Math.min(onsetSamples, RING_SIZE / 2));
+        this.copyFromRing(start, message.samples);
+      }
+      this.port.postMessage(message);
+      return false;
+    });
+  }
+
+  // Same feature names the main thread used to get from Meyda; centroid and rolloff are in Hz, zcr is crossings per sample
+  extractFeatures(start) {
+    const { featureWindow } = this.options;
+    const samples = new Float32Array(featureWindow);
+    this.copyFromRing(start, samples);
+
+    let energy = 0;
+    let crossings = 0;
+    for (let i = 0; i < featureWindow; i++) {
+      energy += samples[i] * samples[i];
+      if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+    }
+
+    const re = new Float32Array(featureWindow);
+    const im = new Float32Array(featureWindow);
+    for (let i = 0; i < featureWindow; i++) re[i] = samples[i] * this.featureWindowShape[i];
+    this.featureFFT(re, im);
+
+    const bins = featureWindow / 2;
+    const binHz = sampleRate / featureWindow;
+    const amplitude = new Float32Array(bins);
+    let amplitudeSum = 0;
+    let weightedSum = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      amplitude[bin] = Math.hypot(re[bin], im[bin]);
+      amplitudeSum += amplitude[bin];
+      weightedSum += bin * binHz * amplitude[bin];
+    }
+
+    let rolloffBin = bins - 1;
+    for (let bin = 0, cumulative = 0; bin < bins; bin++) {
+      cumulative += amplitude[bin];
+      if (cumulative >= 0.99 * amplitudeSum) {
+        rolloffBin = bin;
+        break;
+      }
+    }
+
+    // MFCC: log mel-band energies, decorrelated with a DCT-II
+    const logBands = this.melFilters.map(weights => {
+      let sum = 0;
+      for (let bin = 0; bin < bins; bin++) sum += weights[bin] * amplitude[bin] * amplitude[bin];
+      return Math.log(sum + 1e-10);
+    });
+    const mfcc = Array.from({ length: MFCC_COEFFICIENTS }, (_, k) =>
+      logBands.reduce((sum, value, band) => sum + value * Math.cos((Math.PI * k * (band + 0.5)) / MEL_BANDS), 0)
+    );
+
+    return {
+      mfcc,
+      spectralCentroid: amplitudeSum > 0 ? weightedSum / amplitudeSum : 0,
+      spectralRolloff: rolloffBin * binHz,
+      zcr: crossings / (featureWindow - 1),
+      energy,
+      rms: Math.sqrt(energy / featureWindow),
+    };
+  }
+}
+
+registerProcessor('drum-listener-processor', DrumListenerProcessor);
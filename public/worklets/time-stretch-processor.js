@@ -0,0 +1,186 @@
+// Pitch-preserving time-stretch of a decoded track (WSOLA: waveform similarity overlap-add).
+// The track comes in once, as processorOptions.channels; playback is driven by timed messages so
+// the main thread can keep it sample-aligned with the drum scheduler:
+//   { type: 'play', time, position, rate, loop }   position in seconds of the track
+//   { type: 'stop', time }
+//   { type: 'quality', frameSize, searchRange, searchStride }
+// processorOptions.play starts playback without waiting for a message, which an offline render needs.
+// Plain JavaScript: it is loaded as-is by audioWorklet.addModule.
+
+const DEFAULT_QUALITY = { frameSize: 2048, searchRange: 512, searchStride: 2 };
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { channels, play, ...quality } = options.processorOptions || {};
+    this.channels = channels || [];
+    this.events = play ? [{ type: 'play', ...play }] : [];
+    this.playing = false;
+    this.loop = false;
+    this.rate = 1;
+    this.setQuality({ ...DEFAULT_QUALITY, ...quality });
+    this.port.onmessage = event => this.receive(event.data);
+  }
+
+  receive(message) {
+    if (message.type === 'quality') {
+      this.setQuality(message);
+    } else {
+      // A stop cancels whatever was queued to happen after it
+      if (message.type === 'stop') this.events = this.events.filter(event => event.time < message.time);
+      this.events.push(message);
+      this.events.sort((a, b) => a.time - b.time);
+    }
+  }
+
+  setQuality({ frameSize, searchRange, searchStride }) {
+    this.frameSize = frameSize;
+    this.hop = frameSize / 2;
+    this.searchRange = searchRange;
+    this.searchStride = Math.max(1, searchStride);
+    // Keeps the coarse pass at about 2 * (range / stride) * (hop / stride) multiplies whatever the frame size
+    this.coarseStride = Math.max(this.searchStride, frameSize / 256);
+    this.reference = new Float32Array(this.hop);
+    this.candidates = new Float32Array(this.hop + 2 * searchRange + 1);
+
+    // Hann window; at 50% overlap the windows sum to one
+    this.window = new Float32Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+    }
+    if (this.playing) this.restart(this.readPosition);
+  }
+
+  // Start producing output from a track position in samples
+  restart(position) {
+    const channelCount = Math.max(1, this.channels.length);
+    this.readPosition = position;
+    this.previousFrame = null;
+    this.overlap = Array.from({ length: channelCount }, () => new Float32Array(this.frameSize));
+    this.queue = Array.from({ length: channelCount }, () => new Float32Array(this.hop));
+    this.queueRead = this.hop; // Empty
+  }
+
+  sampleAt(data, index) {
+    const length = data.length;
+    if (this.loop) return data[((index % length) + length) % length];
+    return index >= 0 && index < length ? data[index] : 0;
+  }
+
+  // Mono mix of the track from a sample position, enough to correlate against
+  readMono(start, target) {
+    target.fill(0);
+    for (let c = 0; c < this.channels.length; c++) {
+      const data = this.channels[c];
+      for (let i = 0; i < target.length; i++) target[i] += this.sampleAt(data, start + i);
+    }
+  }
+
+  // Offset around the target frame whose start best continues the previous frame's waveform.
+  // Coarse to fine, so a hop's search fits in one render quantum: every coarseStride-th offset over every
+  // coarseStride-th sample first, then every offset either side of the winner
+  findBestOffset(target) {
+    if (this.previousFrame === null || this.rate === 1) return 0;
+
+    const range = this.searchRange;
+    this.readMono(this.previousFrame + this.hop, this.reference);
+    this.readMono(target - range, this.candidates);
+
+    const coarse = this.coarseStride;
+    const best = this.bestOffsetIn(-range, range, coarse, coarse);
+    return this.bestOffsetIn(Math.max(-range, best - coarse + 1), Math.min(range, best + coarse - 1), 1, this.searchStride);
+  }
+
+  bestOffsetIn(from, to, offsetStride, sampleStride) {
+    const reference = this.reference;
+    const candidates = this.candidates;
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+
+    for (let offset = from; offset <= to; offset += offsetStride) {
+      const base = offset + this.searchRange;
+      let score = 0;
+      for (let i = 0; i < reference.length; i += sampleStride) score += reference[i] * candidates[base + i];
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+    return bestOffset;
+  }
+
+  // Overlap-add the next analysis frame and queue one hop of finished output
+  generateHop() {
+    const target = Math.round(this.readPosition);
+    const start = target + this.findBestOffset(target);
+    const first = this.previousFrame === null;
+
+    for (let c = 0; c < this.overlap.length; c++) {
+      const data = this.channels[c] || this.channels[0];
+      const overlap = this.overlap[c];
+      for (let i = 0; i < this.frameSize; i++) {
+        // The first frame has nothing to cross-fade with, so it starts at full level
+        const gain = first && i < this.hop ? 1 : this.window[i];
+        overlap[i] += gain * this.sampleAt(data, start + i);
+      }
+      this.queue[c].set(overlap.subarray(0, this.hop));
+      overlap.copyWithin(0, this.hop);
+      overlap.fill(0, this.frameSize - this.hop);
+    }
+
+    this.queueRead = 0;
+    this.previousFrame = start;
+    this.readPosition += this.hop * this.rate;
+
+    const length = this.channels[0].length;
+    if (this.loop) {
+      this.readPosition %= length;
+      this.previousFrame %= length;
+    } else if (this.readPosition >= length + this.frameSize) {
+      this.playing = false;
+    }
+  }
+
+  render(output, from, to) {
+    for (let i = from; i < to; i++) {
+      if (!this.playing || this.channels.length === 0) return;
+      if (this.queueRead >= this.hop) this.generateHop();
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = this.queue[Math.min(c, this.queue.length - 1)][this.queueRead];
+      }
+      this.queueRead++;
+    }
+  }
+
+  apply(event) {
+    if (event.type === 'play') {
+      this.loop = !!event.loop;
+      this.rate = event.rate;
+      this.playing = this.channels.length > 0;
+      this.restart(Math.round(event.position * sampleRate));
+    } else if (event.type === 'stop') {
+      this.playing = false;
+    }
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const blockSize = output[0].length;
+    output.forEach(channel => channel.fill(0));
+    let index = 0;
+
+    // Events land on the exact sample of their time within this block
+    while (this.events.length > 0) {
+      const at = Math.round((this.events[0].time - currentTime) * sampleRate);
+      if (at >= blockSize) break;
+      const until = Math.max(index, at);
+      this.render(output, index, until);
+      index = until;
+      this.apply(this.events.shift());
+    }
+    this.render(output, index, blockSize);
+    return true;
+  }
+}
+
+registerProcessor('time-stretch-processor', TimeStretchProcessor);
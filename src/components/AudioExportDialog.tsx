@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Download, Loader2 } from "lucide-react";
+import { MAX_RENDER_SECONDS } from "@/lib/offlineRender";
+
+export type AudioExportLength = 'loops' | 'song';
+
+export interface AudioExportSettings {
+  length: AudioExportLength;
+  loops: number;
+  metronome: boolean;
+  backing: boolean;
+}
+
+interface AudioExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  loopSeconds: number; // One pass of the pattern at the current tempo
+  songSeconds: number;
+  isRendering?: boolean;
+  onRender: (settings: AudioExportSettings) => void;
+}
+
+const MAX_LOOPS = 64;
+
+const formatSeconds = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, '0')}`;
+};
+
+export const AudioExportDialog = ({
+  open,
+  onOpenChange,
+  loopSeconds,
+  songSeconds,
+  isRendering,
+  onRender
+}: AudioExportDialogProps) => {
+  const [settings, setSettings] = useState<AudioExportSettings>({
+    length: 'loops',
+    loops: 4,
+    metronome: false,
+    backing: false
+  });
+  const update = (changes: Partial<AudioExportSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const renderSeconds = Math.min(
+    settings.length === 'song' ? songSeconds : loopSeconds * settings.loops,
+    MAX_RENDER_SECONDS
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Audio</DialogTitle>
+          <DialogDescription>
+            Bounce the pattern to a WAV file with the current kit, groove and mixer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={settings.length}
+            onValueChange={(value: AudioExportLength) => update({ length: value })}
+            className="space-y-2"
+          >
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value="loops" id="export-loops" />
+              <Label htmlFor="export-loops" className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_LOOPS}
+                  value={settings.loops}
+                  onChange={e => update({ length: 'loops', loops: Math.max(1, Math.min(MAX_LOOPS, Number(e.target.value) || 1)) })}
+                  className="h-8 w-20"
+                />
+                loops of the pattern
+              </Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value="song" id="export-song" />
+              <Label htmlFor="export-song">Full song ({formatSeconds(songSeconds)})</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="export-metronome"
+              checked={settings.metronome}
+              onCheckedChange={checked => update({ metronome: checked === true })}
+            />
+            <Label htmlFor="export-metronome">Include metronome</Label>
+          </div>
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="export-backing"
+              checked={settings.backing}
+              onCheckedChange={checked => update({ backing: checked === true })}
+            />
+            <Label htmlFor="export-backing">Include backing track</Label>
+          </div>
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          <span className="text-xs font-mono text-muted-foreground">{formatSeconds(renderSeconds)}</span>
+          <Button onClick={() => onRender(settings)} disabled={isRendering} className="flex items-center gap-2">
+            {isRendering ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            {isRendering ? "Rendering..." : "Render WAV"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
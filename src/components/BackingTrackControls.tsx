@@ -0,0 +1,138 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Settings2, Upload } from "lucide-react";
+import { BackingTrackRef } from "@/lib/drumPattern";
+import { getBackingTrackName } from "@/lib/backingTrack";
+import { TIME_STRETCH_QUALITIES, TimeStretchQuality, getTimeStretchLatency } from "@/lib/timeStretch";
+
+interface BackingTrackControlsProps {
+  track: BackingTrackRef;
+  isDefault: boolean; // The pattern brings no track of its own
+  duration: number;
+  isLoading?: boolean;
+  error?: string | null;
+  onChange: (track: BackingTrackRef | null) => void; // null goes back to the default track
+  onLoadFile: (file: File) => void;
+  // How the track keeps its pitch when the tempo moves away from the recording's
+  timeStretchQuality: TimeStretchQuality;
+  onTimeStretchQualityChange: (quality: TimeStretchQuality) => void;
+  sampleRate: number;
+}
+
+export const BackingTrackControls = ({
+  track,
+  isDefault,
+  duration,
+  isLoading,
+  error,
+  onChange,
+  onLoadFile,
+  timeStretchQuality,
+  onTimeStretchQualityChange,
+  sampleRate
+}: BackingTrackControlsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onLoadFile(file);
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="Backing track" className="h-8 w-8 text-white hover:text-white">
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Settings2 className="h-4 w-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="space-y-1">
+          <div className="text-sm font-medium truncate" title={getBackingTrackName(track)}>
+            {getBackingTrackName(track)}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {error
+              ? <span className="text-destructive">{error}</span>
+              : duration > 0 ? `${Math.floor(duration / 60)}:${Math.floor(duration % 60).toString().padStart(2, '0')}` : 'Loading...'}
+            {isDefault && ' · default track'}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="backing-offset">Offset (s)</Label>
+            <Input
+              id="backing-offset"
+              type="number"
+              step={0.01}
+              value={track.offset}
+              onChange={e => onChange({ ...track, offset: Number(e.target.value) || 0 })}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="backing-bpm">Recorded BPM</Label>
+            <Input
+              id="backing-bpm"
+              type="number"
+              min={1}
+              placeholder="Pattern"
+              value={track.bpm ?? ''}
+              onChange={e => onChange({ ...track, bpm: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label>Time-stretch</Label>
+            <span className="text-xs font-mono text-muted-foreground">
+              {Math.round(getTimeStretchLatency(timeStretchQuality, sampleRate) * 1000)} ms
+            </span>
+          </div>
+          <Select value={timeStretchQuality} onValueChange={(value: TimeStretchQuality) => onTimeStretchQualityChange(value)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TIME_STRETCH_QUALITIES) as TimeStretchQuality[]).map(quality => (
+                <SelectItem key={quality} value={quality}>{TIME_STRETCH_QUALITIES[quality].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 flex items-center gap-2"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Load audio file
+          </Button>
+          {!isDefault && (
+            <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+              Use default
+            </Button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
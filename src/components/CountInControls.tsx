@@ -0,0 +1,84 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { COUNT_IN_BAR_OPTIONS, CountInSettings } from "@/lib/countIn";
+
+interface CountInControlsProps {
+  countIn: CountInSettings;
+  onChange: (countIn: CountInSettings) => void;
+  isLoadingVoice?: boolean;
+  voiceError?: string | null;
+}
+
+export const CountInControls = ({
+  countIn,
+  onChange,
+  isLoadingVoice,
+  voiceError
+}: CountInControlsProps) => {
+  const update = (changes: Partial<CountInSettings>) => onChange({ ...countIn, ...changes });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Count-in"
+          className={cn("h-8 w-8 text-white hover:text-white", countIn.bars > 0 && "text-violet-300 hover:text-violet-300")}
+        >
+          <Timer className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-4">
+        <div className="space-y-1">
+          <Label>Count-in</Label>
+          <Select value={String(countIn.bars)} onValueChange={value => update({ bars: Number(value) })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COUNT_IN_BAR_OPTIONS.map(bars => (
+                <SelectItem key={bars} value={String(bars)}>
+                  {bars === 0 ? 'Off' : `${bars} ${bars === 1 ? 'bar' : 'bars'}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="count-in-voice" className="flex items-center gap-2">
+              Spoken count
+              {isLoadingVoice && <Loader2 className="h-3 w-3 animate-spin" />}
+            </Label>
+            <Switch
+              id="count-in-voice"
+              checked={countIn.voice}
+              disabled={countIn.bars === 0}
+              onCheckedChange={voice => update({ voice })}
+            />
+          </div>
+          {countIn.voice && voiceError && (
+            <div className="text-xs text-destructive">{voiceError}, counting with clicks only</div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="count-in-loop">Before every loop pass</Label>
+          <Switch
+            id="count-in-loop"
+            checked={countIn.everyLoopPass}
+            disabled={countIn.bars === 0}
+            onCheckedChange={everyLoopPass => update({ everyLoopPass })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,58 +1,47 @@
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Trash2, Volume2, VolumeX, Settings, Upload, Loader2, RotateCcw } from "lucide-react";
+import { Trash2, Volume2, VolumeX, Settings, Library, Loader2, RotateCcw, Upload, Download, FileAudio } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PATTERN_FILE_ACCEPT } from "@/lib/patternFormats";
+import { StepLevel, getCountLabel, getPatternMeter, getStepLevel } from "@/lib/meter";
+import { DrumNote, DrumPattern, InstrumentId, clampVelocity, cycleArticulation, getTracks } from "@/lib/drumPattern";
+import { LoopRegion, createLoopRegion, isStepInLoop } from "@/lib/loopRegion";
 
 interface DrumGridProps {
-  pattern: {
-    [key: string]: boolean[] | number | string[] | number[];
-    length: number;
-    subdivisions?: string[];
-    offsets?: number[];
-  };
+  pattern: DrumPattern;
   currentStep: number;
   currentView?: number;
   stepsPerView?: number;
-  onStepToggle: (drum: string, step: number) => void;
+  onStepToggle: (drum: InstrumentId, step: number) => void;
+  onNoteChange?: (drum: InstrumentId, step: number, changes: Partial<DrumNote>) => void;
   onClearPattern: () => void;
   metronomeEnabled: boolean;
   onMetronomeToggle: () => void;
   onTogglePlay: () => void;
   isPlaying: boolean;
   onLoadPattern?: () => void;
+  onLoadFile?: (file: File) => void;
+  onExportMidi?: () => void;
+  onExportAudio?: () => void;
   isLoadingPattern?: boolean;
   onClearLoadedPattern?: () => void;
   hasLoadedPattern?: boolean;
+  // Dragging across the step numbers sets the loop
+  loopRegion?: LoopRegion | null;
+  onLoopChange?: (loop: LoopRegion | null) => void;
 }
-const drumLabels: {
-  [key: string]: {
-    name: string;
-    symbol: string;
-  };
-} = {
-  kick: {
-    name: "Kick",
-    symbol: "●"
-  },
-  snare: {
-    name: "Snare",
-    symbol: "×"
-  },
-  hihat: {
-    name: "Hi-Hat",
-    symbol: "○"
-  },
-  openhat: {
-    name: "Open Hat",
-    symbol: "◎"
-  },
-  tom: {
-    name: "Tom",
-    symbol: "◆"
-  },
-  crash: {
-    name: "Crash",
-    symbol: "⊗"
-  },
+// Count row styling by how strong the step is in the meter
+const countStyles: Record<StepLevel, string> = {
+  bar: "text-primary font-bold",
+  pulse: "text-primary font-bold",
+  beat: "text-accent font-medium",
+  sub: "text-muted-foreground/70 font-medium"
+};
+
+const drumLabels: Record<InstrumentId, {
+  name: string;
+  symbol: string;
+}> = {
   "HH Closed": {
     name: "Hi-Hat",
     symbol: "○"
@@ -78,26 +67,125 @@ const drumLabels: {
     symbol: "⊗"
   }
 };
+
+// Vertical drag on a note edits its velocity: the full 0-1 range spans this many pixels
+const VELOCITY_DRAG_RANGE_PX = 120;
+const VELOCITY_DRAG_THRESHOLD_PX = 3;
+
+interface VelocityDrag {
+  drum: InstrumentId;
+  step: number;
+  startY: number;
+  startVelocity: number;
+  moved: boolean;
+}
+
 export const DrumGrid = ({
   pattern,
   currentStep,
   currentView = 0,
   stepsPerView = 16,
   onStepToggle,
+  onNoteChange,
   onClearPattern,
   metronomeEnabled,
   onMetronomeToggle,
   onTogglePlay,
   isPlaying,
   onLoadPattern,
+  onLoadFile,
+  onExportMidi,
+  onExportAudio,
   isLoadingPattern,
   onClearLoadedPattern,
-  hasLoadedPattern
+  hasLoadedPattern,
+  loopRegion = null,
+  onLoopChange
 }: DrumGridProps) => {
   // Calculate visible steps
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const startStep = currentView * stepsPerView;
   const endStep = Math.min(startStep + stepsPerView, pattern.length);
   const visibleSteps = endStep - startStep;
+  const { subdivisions, offsets } = pattern.metadata;
+  const meter = getPatternMeter(pattern);
+  const velocityDragRef = useRef<VelocityDrag | null>(null);
+  // Step the loop drag started on, and the region it covers so far
+  const loopDragStartRef = useRef<number | null>(null);
+  const [loopDraft, setLoopDraft] = useState<LoopRegion | null>(null);
+  const shownLoop = loopDraft || loopRegion;
+
+  // Step under the pointer from its position across the step number row, so a drag can leave the cell it started on
+  const getHeaderStep = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const index = Math.floor(((event.clientX - rect.left) / rect.width) * visibleSteps);
+    return startStep + Math.max(0, Math.min(visibleSteps - 1, index));
+  };
+
+  const handleHeaderPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!onLoopChange || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const step = getHeaderStep(event);
+    loopDragStartRef.current = step;
+    setLoopDraft(createLoopRegion(step, step));
+  };
+
+  const handleHeaderPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (loopDragStartRef.current === null) return;
+    setLoopDraft(createLoopRegion(loopDragStartRef.current, getHeaderStep(event)));
+  };
+
+  // A plain click on one number is not a loop; it takes at least two steps
+  const handleHeaderPointerUp = () => {
+    if (loopDragStartRef.current === null) return;
+    loopDragStartRef.current = null;
+    if (loopDraft && loopDraft.end - loopDraft.start > 1) onLoopChange?.(loopDraft);
+    setLoopDraft(null);
+  };
+
+  const handleNotePointerDown = (event: React.PointerEvent<HTMLButtonElement>, drum: InstrumentId, step: number, note?: DrumNote) => {
+    velocityDragRef.current = null;
+    if (!onNoteChange || !note?.active || event.button !== 0) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    velocityDragRef.current = {
+      drum,
+      step,
+      startY: event.clientY,
+      startVelocity: note.velocity,
+      moved: false
+    };
+  };
+
+  const handleNotePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    const drag = velocityDragRef.current;
+    if (!drag || !onNoteChange) return;
+
+    const deltaY = drag.startY - event.clientY;
+    if (!drag.moved && Math.abs(deltaY) < VELOCITY_DRAG_THRESHOLD_PX) return;
+
+    drag.moved = true;
+    onNoteChange(drag.drum, drag.step, {
+      velocity: clampVelocity(drag.startVelocity + deltaY / VELOCITY_DRAG_RANGE_PX)
+    });
+  };
+
+  const handleNoteClick = (drum: InstrumentId, step: number) => {
+    // A velocity drag ends with a click on the same button; it must not toggle the note off
+    const drag = velocityDragRef.current;
+    velocityDragRef.current = null;
+    if (drag?.moved) return;
+
+    onStepToggle(drum, step);
+  };
+
+  // Right-click cycles normal -> accent -> ghost
+  const handleNoteContextMenu = (event: React.MouseEvent<HTMLButtonElement>, drum: InstrumentId, step: number, note?: DrumNote) => {
+    if (!onNoteChange || !note?.active) return;
+    event.preventDefault();
+    onNoteChange(drum, step, cycleArticulation(note));
+  };
+
   return <div className="space-y-6">
       {/* Controls */}
       <div className="flex items-center justify-end gap-2">
@@ -127,9 +215,53 @@ export const DrumGrid = ({
             {isLoadingPattern ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
-              <Upload className="h-4 w-4" />
+              <Library className="h-4 w-4" />
             )}
-            Load CSV
+            Browse Patterns
+          </Button>
+        )}
+        {onLoadFile && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={PATTERN_FILE_ACCEPT}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onLoadFile(file);
+                event.target.value = '';
+              }}
+              className="hidden"
+            />
+            <Button 
+              onClick={() => fileInputRef.current?.click()} 
+              variant="outline" 
+              className="flex items-center gap-2"
+              disabled={isLoadingPattern}
+            >
+              <Upload className="h-4 w-4" />
+              Load File
+            </Button>
+          </>
+        )}
+        {onExportMidi && (
+          <Button 
+            onClick={onExportMidi} 
+            variant="outline" 
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export MIDI
+          </Button>
+        )}
+        {onExportAudio && (
+          <Button 
+            onClick={onExportAudio} 
+            variant="outline" 
+            className="flex items-center gap-2"
+          >
+            <FileAudio className="h-4 w-4" />
+            Export WAV
           </Button>
         )}
         {onClearLoadedPattern && hasLoadedPattern && (
@@ -165,14 +297,29 @@ export const DrumGrid = ({
         <div className="flex mb-4 flex-col gap-1">
           <div className="flex">
             <div className="w-20 text-xs text-muted-foreground/50">Step#</div>
-            {Array.from({ length: visibleSteps }, (_, i) => {
-              const stepIndex = startStep + i;
-              return (
-                <div key={`step-${stepIndex}`} className="flex-1 text-center text-[10px] font-mono text-muted-foreground/40">
-                  {stepIndex}
-                </div>
-              );
-            })}
+            <div
+              className={cn("flex flex-1 select-none touch-none", onLoopChange && "cursor-ew-resize")}
+              title={onLoopChange ? "Drag to loop these steps" : undefined}
+              onPointerDown={handleHeaderPointerDown}
+              onPointerMove={handleHeaderPointerMove}
+              onPointerUp={handleHeaderPointerUp}
+              onPointerCancel={handleHeaderPointerUp}
+            >
+              {Array.from({ length: visibleSteps }, (_, i) => {
+                const stepIndex = startStep + i;
+                return (
+                  <div
+                    key={`step-${stepIndex}`}
+                    className={cn(
+                      "flex-1 text-center text-[10px] font-mono",
+                      isStepInLoop(shownLoop, stepIndex) ? "bg-primary/20 text-primary" : "text-muted-foreground/40"
+                    )}
+                  >
+                    {stepIndex}
+                  </div>
+                );
+              })}
+            </div>
           </div>
           <div className="flex">
             <div className="w-20 text-xs text-muted-foreground/50">Count</div>
@@ -181,40 +328,24 @@ export const DrumGrid = ({
               let displayText = "";
               let textStyle = "text-muted-foreground/60";
               
-              // If we have subdivision data from the CSV, use it
-              if (pattern.subdivisions && pattern.subdivisions[stepIndex]) {
-                const count = pattern.subdivisions[stepIndex];
+              // If we have subdivision data from the CSV, use it; otherwise count the meter
+              if (subdivisions && subdivisions[stepIndex]) {
+                const count = subdivisions[stepIndex];
                 displayText = count;
                 
                 // Style based on count type
-                if (count === '1' || count === '2' || count === '3' || count === '4') {
+                if (/^\d+$/.test(count)) {
                   textStyle = "text-primary font-bold";
                 } else if (count === '&') {
                   textStyle = "text-accent font-medium";
-                } else if (count === 'e' || count === 'a') {
+                } else {
                   textStyle = "text-muted-foreground/70 font-medium";
                 }
               } else {
-                // Fallback to 16-step bar: 1 e & a 2 e & a 3 e & a 4 e & a
-                const posInBar = stepIndex % 16;
-                const beatPosition = posInBar % 4;
-                
-                if (beatPosition === 0) {
-                  // Main beats: 1, 2, 3, 4
-                  displayText = String(Math.floor(posInBar / 4) + 1);
-                  textStyle = "text-primary font-bold";
-                } else if (beatPosition === 1) {
-                  // 16th note "e"
-                  displayText = "e";
-                  textStyle = "text-muted-foreground/70 font-medium";
-                } else if (beatPosition === 2) {
-                  // 8th note "&"
-                  displayText = "&";
-                  textStyle = "text-accent font-medium";
-                } else if (beatPosition === 3) {
-                  // 16th note "a"
-                  displayText = "a";
-                  textStyle = "text-muted-foreground/70 font-medium";
+                displayText = getCountLabel(meter, stepIndex);
+                textStyle = countStyles[getStepLevel(meter, stepIndex)];
+                if (displayText === '&') {
+                  textStyle = countStyles.beat;
                 }
               }
               
@@ -228,13 +359,8 @@ export const DrumGrid = ({
         </div>
 
         {/* Drum Rows */}
-        {Object.entries(pattern).filter(([key]) => key !== 'length' && key !== 'subdivisions' && key !== 'offsets' && key !== 'sections').map(([drumKey, steps]) => {
-          if (!Array.isArray(steps)) return null;
-          
-          const drumInfo = drumLabels[drumKey] || { 
-            name: drumKey, 
-            symbol: drumKey === 'Kick' ? '●' : drumKey === 'Snare' ? '×' : drumKey === 'Hi-Hat' ? '○' : drumKey === 'Tom' ? '◆' : '●' 
-          };
+        {getTracks(pattern).map(([drumKey, steps]) => {
+          const drumInfo = drumLabels[drumKey];
           
           return (
             <div key={drumKey} className="flex items-center mb-3 group">
@@ -252,26 +378,36 @@ export const DrumGrid = ({
                 <div className="flex relative z-10">
                   {Array.from({ length: visibleSteps }, (_, i) => {
                     const stepIndex = startStep + i;
-                    const active = (steps as boolean[])[stepIndex];
+                    const note = steps[stepIndex];
+                    const active = note?.active;
                     return (
                       <button 
                         key={stepIndex} 
-                        onClick={() => onStepToggle(drumKey, stepIndex)} 
+                        onClick={() => handleNoteClick(drumKey, stepIndex)} 
+                        onPointerDown={(event) => handleNotePointerDown(event, drumKey, stepIndex, note)}
+                        onPointerMove={handleNotePointerMove}
+                        onContextMenu={(event) => handleNoteContextMenu(event, drumKey, stepIndex, note)}
+                        title={active ? `Velocity ${Math.round(note.velocity * 127)}${note.accent ? ' (accent)' : ''}${note.ghost ? ' (ghost)' : ''}` : undefined}
                         className={cn(
                           "flex-1 h-12 border-r border-grid-line last:border-r-0 transition-all duration-200",
                           "flex items-center justify-center group-hover:bg-muted/20",
+                          isStepInLoop(loopRegion, stepIndex) && "bg-primary/5",
                           stepIndex === currentStep && "bg-playhead/10",
-                          stepIndex % 2 === 0 && "border-r-2 border-primary/30"
+                          (stepIndex + 1) % meter.stepsPerBeat === 0 && "border-r-2 border-primary/30"
                         )}
                       >
                         {active && (
-                          <div className={cn(
-                            "w-6 h-6 rounded-full bg-gradient-to-br from-note-active to-accent",
-                            "shadow-note transition-transform duration-200 hover:scale-110",
-                            "flex items-center justify-center text-xs font-bold text-background",
-                            stepIndex === currentStep && active && "animate-bounce"
-                          )}>
-                            {drumInfo.symbol}
+                          <div
+                            className={cn(
+                              "w-6 h-6 rounded-full bg-gradient-to-br from-note-active to-accent",
+                              "shadow-note transition-transform duration-200 hover:scale-110",
+                              "flex items-center justify-center text-xs font-bold text-background",
+                              note.accent && "ring-2 ring-primary ring-offset-1 ring-offset-card",
+                              stepIndex === currentStep && active && "animate-bounce"
+                            )}
+                            style={{ opacity: 0.35 + note.velocity * 0.65 }}
+                          >
+                            {note.ghost ? `(${drumInfo.symbol})` : drumInfo.symbol}
                           </div>
                         )}
                       </button>
@@ -285,13 +421,16 @@ export const DrumGrid = ({
 
         {/* Grid Enhancement */}
         <div className="absolute inset-6 pointer-events-none">
-          {/* Vertical beat lines */}
-          {Array.from({ length: Math.ceil(visibleSteps / 2) }, (_, i) => (
+          {/* Vertical beat lines, stronger on bar lines */}
+          {Array.from({ length: Math.ceil(visibleSteps / meter.stepsPerBeat) }, (_, i) => (
             <div 
               key={i} 
-              className="absolute top-0 bottom-0 border-l border-primary/20" 
+              className={cn(
+                "absolute top-0 bottom-0 border-l",
+                getStepLevel(meter, startStep + i * meter.stepsPerBeat) === 'bar' ? "border-primary/40" : "border-primary/20"
+              )}
               style={{
-                left: `${88 + i * (100 - 88 / visibleSteps) / (visibleSteps / 2)}%`
+                left: `${88 + i * meter.stepsPerBeat * (100 - 88 / visibleSteps) / visibleSteps}%`
               }} 
             />
           ))}
@@ -299,15 +438,15 @@ export const DrumGrid = ({
       </div>
 
       {/* Pattern Info */}
-      {pattern.subdivisions && (
+      {subdivisions && (
         <div className="mt-4 p-4 bg-muted/30 rounded-lg text-sm">
           <div className="font-medium mb-2">CSV Pattern Loaded:</div>
           <div className="grid grid-cols-2 gap-4 text-muted-foreground">
             <div>
-              <span className="font-mono">Subdivisions:</span> ✓ Loaded ({pattern.subdivisions.filter(Boolean).length} beats)
+              <span className="font-mono">Subdivisions:</span> ✓ Loaded ({subdivisions.filter(Boolean).length} beats)
             </div>
             <div>
-              <span className="font-mono">Offsets:</span> {pattern.offsets ? `✓ Loaded (${pattern.offsets.length} steps)` : '✗ Not available'}
+              <span className="font-mono">Offsets:</span> {offsets ? `✓ Loaded (${offsets.length} steps)` : '✗ Not available'}
             </div>
             <div className="col-span-2">
               <span className="font-mono">Pattern Length:</span> {pattern.length} steps
@@ -1,21 +1,87 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, RotateCcw, Settings, Plus, Minus, Mic, MicOff, Music, Volume2, VolumeX, Grid3x3, Music2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Play, Pause, RotateCcw, Settings, Plus, Minus, Mic, MicOff, Music, Volume2, VolumeX, Grid3x3, Music2, SlidersVertical } from "lucide-react";
 import { DrumGrid } from "./DrumGrid";
 import { DrumNotation } from "./DrumNotation";
 import { PatternNavigation } from "./PatternNavigation";
+import { PatternCatalogue } from "./PatternCatalogue";
+import { AudioExportDialog, AudioExportSettings } from "./AudioExportDialog";
+import { BackingTrackControls } from "./BackingTrackControls";
+import { LoopControls } from "./LoopControls";
+import { CountInControls } from "./CountInControls";
+import { TempoTrainerControls } from "./TempoTrainerControls";
+import { SongTimeline } from "./SongTimeline";
+import { LoadedPatternInfo, PatternDiagnosticsPanel } from "./PatternDiagnosticsPanel";
+import { TempoLane } from "./TempoLane";
+import { GrooveControls } from "./GrooveControls";
+import { MixerPanel } from "./MixerPanel";
 import { useToast } from "@/hooks/use-toast";
 import { useDrumListener } from "@/hooks/useDrumListener";
-import { useCSVPatternLoader } from "@/hooks/useCSVPatternLoader";
-import { cn } from "@/lib/utils";
-
-interface DrumPattern {
-  [key: string]: boolean[] | number | string[] | number[];
-  length: number;
-  subdivisions?: string[];
-  offsets?: number[];
-  sections?: string[];
-}
+import { PatternCatalogueEntry, useCSVPatternLoader } from "@/hooks/useCSVPatternLoader";
+import { useMidiPatternLoader } from "@/hooks/useMidiPatternLoader";
+import { useTransportScheduler } from "@/hooks/useTransportScheduler";
+import { useDrumKit } from "@/hooks/useDrumKit";
+import { useMixer } from "@/hooks/useMixer";
+import { useAudioExport } from "@/hooks/useAudioExport";
+import { useBackingTrack } from "@/hooks/useBackingTrack";
+import { useCountInVoice } from "@/hooks/useCountInVoice";
+import { cn, downloadBlob } from "@/lib/utils";
+import { exportPatternToMidi } from "@/lib/midi";
+import { DEFAULT_KIT_ID } from "@/lib/drumKit";
+import { MixerChannelId } from "@/lib/mixer";
+import { ChokeGroupOverrides, createVoiceManager, getChokeGroup } from "@/lib/voiceManager";
+import { playDrumHit, playMetronomeClick } from "@/lib/drumVoice";
+import { BackingTrackRender } from "@/lib/offlineRender";
+import { getBackingTrack, getBackingTrackPosition, isBackingTrackSong } from "@/lib/backingTrack";
+import { LoopRegion, getNextStep, getSectionRanges, getValidLoopRegion, isStepInLoop } from "@/lib/loopRegion";
+import { CountInBeat, DEFAULT_COUNT_IN, getCountInBeats } from "@/lib/countIn";
+import {
+  ACCURACY_WINDOW_MS,
+  DEFAULT_TEMPO_TRAINER,
+  HeardHit,
+  INITIAL_TRAINER_PROGRESS,
+  PlayedStep,
+  TempoTrainerSettings,
+  advanceTempoTrainer,
+  describeTrainerProgress,
+  getTrainerStages,
+  getTrainerTempo,
+  isTrainerComplete,
+  scorePass
+} from "@/lib/tempoTrainer";
+import { mergeSectionWithNext, moveSection, renameSection, splitSection } from "@/lib/songStructure";
+import { PATTERN_FORMAT_LABELS, PatternFormat, isMidiFileName } from "@/lib/patternFormats";
+import { ParseDiagnostic } from "@/lib/patternParsers";
+import {
+  METER_PRESETS,
+  applyMeter,
+  formatMeter,
+  getPatternMeter,
+  getStepDuration,
+  getStepLevel,
+  getStepsPerBar,
+  getStepsPerQuarter,
+  getStepsPerView,
+  isSameMeter
+} from "@/lib/meter";
+import { DEFAULT_GROOVE, GrooveSettings, getGrooveHits } from "@/lib/groove";
+import { getBaseTempo, getPlaybackTempo, getStepTimes, removeTempoEvent, setTempoEvent } from "@/lib/tempoMap";
+import {
+  BackingTrackRef,
+  DrumNote,
+  DrumPattern,
+  INSTRUMENT_IDS,
+  InstrumentId,
+  TempoEvent,
+  clearPattern as clearPatternSteps,
+  countActiveSteps,
+  createEmptyPattern,
+  createNote,
+  getTracks,
+  toggleStep as togglePatternStep,
+  updateNote as updatePatternNote
+} from "@/lib/drumPattern";
 
 export const DrumMachine = () => {
   const [isPlaying, setIsPlaying] = useState(false);
@@ -23,39 +89,86 @@ export const DrumMachine = () => {
   const [currentView, setCurrentView] = useState(0);
   const [bpm, setBpm] = useState(123);
   const [metronomeEnabled, setMetronomeEnabled] = useState(true);
+  const [countIn, setCountIn] = useState(DEFAULT_COUNT_IN);
+  const [countInBeat, setCountInBeat] = useState<number | null>(null);
+  const [tempoTrainer, setTempoTrainer] = useState(DEFAULT_TEMPO_TRAINER);
+  const [trainerProgress, setTrainerProgress] = useState(INITIAL_TRAINER_PROGRESS);
+  // Steps played since the last pass or bar the trainer counted, and the step before them
+  const trainerStepsRef = useRef<PlayedStep[]>([]);
+  // Hits the listener heard over those steps, all of them however long the pass
+  const trainerHeardRef = useRef<HeardHit[]>([]);
+  const previousPlayedStepRef = useRef<number | null>(null);
   const [backingTrackDuration, setBackingTrackDuration] = useState(120); // Default to 120 seconds
   const [timeRemaining, setTimeRemaining] = useState(120);
-  const [patternLength, setPatternLength] = useState<number>(16);
   const [displayMode, setDisplayMode] = useState<'grid' | 'notation'>('grid');
-  const [pattern, setPattern] = useState<DrumPattern>(() => {
-    const initialLength = 16;
-    return {
-      'Kick': new Array(initialLength).fill(false),
-      'Snare': new Array(initialLength).fill(false),
-      'HH Closed': new Array(initialLength).fill(false),
-      'HH Open': new Array(initialLength).fill(false),
-      'Tom': new Array(initialLength).fill(false),
-      'Ghost Note': new Array(initialLength).fill(false),
-      'Crash Cymbal': new Array(initialLength).fill(false),
-      length: initialLength,
-    };
-  });
+  const [pattern, setPattern] = useState<DrumPattern>(() => createEmptyPattern(16));
   const [backingTrackEnabled, setBackingTrackEnabled] = useState(false);
   const [drumSoundsMuted, setDrumSoundsMuted] = useState(false);
   const [currentSection, setCurrentSection] = useState<string>('');
+  const [groove, setGroove] = useState<GrooveSettings>(DEFAULT_GROOVE);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
 
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const snareBufferRef = useRef<AudioBuffer | null>(null);
-  const kickBufferRef = useRef<AudioBuffer | null>(null);
-  const hhOpenBufferRef = useRef<AudioBuffer | null>(null);
-  const hhClosedBufferRef = useRef<AudioBuffer | null>(null);
-  const tomBufferRef = useRef<AudioBuffer | null>(null);
-  const ghostNoteBufferRef = useRef<AudioBuffer | null>(null);
-  const crashCymbalBufferRef = useRef<AudioBuffer | null>(null);
-  const backingTrackRef = useRef<HTMLAudioElement | null>(null);
   const { toast } = useToast();
+
+  // Samples come from a kit manifest in public/kits, decoded once into a shared buffer cache
+  const {
+    kits,
+    kit,
+    loadKitCatalogue,
+    loadKit,
+    resolveKitNote,
+    createKitNoteResolver,
+    isLoading: isLoadingKit
+  } = useDrumKit(audioContextRef);
+
+  // Every voice goes through a channel strip of the mixer bus graph
+  const {
+    mixer,
+    connectMixer,
+    getChannelInput,
+    updateChannel: updateMixerChannel,
+    resetMixer
+  } = useMixer(audioContextRef);
+  const [mixerOpen, setMixerOpen] = useState(false);
+
+  // Ringing voices per choke group, so a closed hat cuts off an open one
+  const voiceManagerRef = useRef(createVoiceManager());
+  const [chokeOverrides, setChokeOverrides] = useState<ChokeGroupOverrides>({});
+  const getInstrumentChokeGroup = (drum: InstrumentId) =>
+    getChokeGroup(drum, kit?.instruments[drum], chokeOverrides);
+
+  // Recording under the drums, decoded into the audio graph and kept sample-aligned with the steps
+  const {
+    buffer: backingTrackBuffer,
+    duration: backingTrackSeconds,
+    loadBackingTrack,
+    createBackingTrackFromFile,
+    playBackingTrack,
+    stopBackingTrack,
+    timeStretchQuality,
+    setTimeStretchQuality,
+    isLoading: isLoadingBackingTrack,
+    error: backingTrackError
+  } = useBackingTrack(audioContextRef);
+  // Last step handed to the scheduler; null forces the backing track to realign on the next one
+  const lastScheduledStepRef = useRef<number | null>(null);
+
+  // Spoken beat numbers for the count-in, fetched the first time they are asked for
+  const {
+    loadVoice: loadCountInVoice,
+    playCount,
+    isLoading: isLoadingCountInVoice,
+    error: countInVoiceError
+  } = useCountInVoice(audioContextRef);
+  useEffect(() => {
+    if (countIn.voice) loadCountInVoice();
+  }, [countIn.voice, loadCountInVoice]);
+
+  // Offline bounce to WAV through the same voices and mixer
+  const { renderPatternToWav, isRendering } = useAudioExport();
+  const [audioExportOpen, setAudioExportOpen] = useState(false);
   
   // Drum listener hook for microphone beat detection
   const {
@@ -64,16 +177,29 @@ export const DrumMachine = () => {
     audioLevel,
     error: listenerError,
     isModelLoaded,
+    modelName: listenerModelName,
     startListening,
     stopListening,
     clearBeats
-  } = useDrumListener();
+  } = useDrumListener({
+    onDetection: detection => {
+      if (tempoTrainer.enabled) trainerHeardRef.current.push(detection);
+    }
+  });
 
-  const { loadPatternFromFile, isLoading: isLoadingPattern, error: csvError } = useCSVPatternLoader();
-  const [loadedPatternInfo, setLoadedPatternInfo] = useState<{
-    componentsFound: string[];
-    totalBeats: number;
-  } | null>(null);
+  const {
+    loadPatternFromText,
+    fetchBundledPatternFile,
+    loadPatternCatalogue,
+    isLoading: isLoadingCSV,
+    error: csvError
+  } = useCSVPatternLoader();
+  const { loadPatternFromMidiFile, isLoading: isLoadingMidi } = useMidiPatternLoader();
+  const isLoadingPattern = isLoadingCSV || isLoadingMidi;
+  const [catalogueOpen, setCatalogueOpen] = useState(false);
+  const [catalogueEntries, setCatalogueEntries] = useState<PatternCatalogueEntry[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [loadedPatternInfo, setLoadedPatternInfo] = useState<LoadedPatternInfo | null>(null);
 
   // Handle listener state changes and errors
   useEffect(() => {
@@ -110,262 +236,253 @@ export const DrumMachine = () => {
     }
   };
 
-  // Load snare sample
-  const loadSnareBuffer = async () => {
-    if (audioContextRef.current && !snareBufferRef.current) {
-      try {
-        const response = await fetch('/samples/snare-acoustic-raw-2.wav');
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-        snareBufferRef.current = audioBuffer;
-      } catch (error) {
-        console.error('Failed to load snare sample:', error);
-      }
-    }
-  };
-
-  // Load kick sample
-  const loadKickBuffer = async () => {
-    if (audioContextRef.current && !kickBufferRef.current) {
-      try {
-        const response = await fetch('/samples/bass-kick-drum-hit_D_minor.wav');
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-        kickBufferRef.current = audioBuffer;
-      } catch (error) {
-        console.error('Failed to load kick sample:', error);
-      }
-    }
-  };
-
-  // Load HH Open sample
-  const loadHHOpenBuffer = async () => {
-    if (audioContextRef.current && !hhOpenBufferRef.current) {
-      try {
-        const response = await fetch('/samples/open-hi-hats-4.wav');
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-        hhOpenBufferRef.current = audioBuffer;
-      } catch (error) {
-        console.error('Failed to load HH Open sample:', error);
-      }
-    }
-  };
-
-  // Load HH Closed sample
-  const loadHHClosedBuffer = async () => {
-    if (audioContextRef.current && !hhClosedBufferRef.current) {
-      try {
-        const response = await fetch('/samples/closed-hi-hat-new.wav');
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-        hhClosedBufferRef.current = audioBuffer;
-      } catch (error) {
-        console.error('Failed to load HH Closed sample:', error);
-      }
-    }
-  };
-
-  // Load Tom sample
-  const loadTomBuffer = async () => {
-    if (audioContextRef.current && !tomBufferRef.current) {
-      try {
-        // Using snare sample for tom for now (can be replaced with actual tom sample)
-        const response = await fetch('/samples/snare-acoustic-raw-2.wav');
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-        tomBufferRef.current = audioBuffer;
-      } catch (error) {
-        console.error('Failed to load Tom sample:', error);
-      }
-    }
-  };
-
-  // Load Ghost Note sample
-  const loadGhostNoteBuffer = async () => {
-    if (audioContextRef.current && !ghostNoteBufferRef.current) {
-      try {
-        const response = await fetch('/samples/snare-ghost.wav');
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-        ghostNoteBufferRef.current = audioBuffer;
-      } catch (error) {
-        console.error('Failed to load Ghost Note sample:', error);
-      }
-    }
-  };
-
-  // Load Crash Cymbal sample
-  const loadCrashCymbalBuffer = async () => {
-    if (audioContextRef.current && !crashCymbalBufferRef.current) {
-      try {
-        const response = await fetch('/samples/open-hi-hats-2.wav');
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-        crashCymbalBufferRef.current = audioBuffer;
-      } catch (error) {
-        console.error('Failed to load Crash Cymbal sample:', error);
-      }
-    }
-  };
-
   // Initialize audio context and load samples
   useEffect(() => {
     audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-    loadSnareBuffer();
-    loadKickBuffer();
-    loadHHOpenBuffer();
-    loadHHClosedBuffer();
-    loadTomBuffer();
-    loadGhostNoteBuffer();
-    loadCrashCymbalBuffer();
-    
-    // Initialize backing track
-    backingTrackRef.current = new Audio('/samples/sweet_child_o_mine_backing_track.mp3');
-    backingTrackRef.current.loop = true;
-    backingTrackRef.current.volume = 0.3;
-    
-    // Get backing track duration when metadata is loaded
-    backingTrackRef.current.addEventListener('loadedmetadata', () => {
-      if (backingTrackRef.current && !isNaN(backingTrackRef.current.duration)) {
-        const duration = Math.floor(backingTrackRef.current.duration);
-        setBackingTrackDuration(duration);
-        setTimeRemaining(duration);
-      }
-    });
-    
+    connectMixer();
+    loadKitCatalogue()
+      .then(() => loadKit(DEFAULT_KIT_ID))
+      .catch(error => console.error('Failed to load drum kit:', error));
+
     return () => {
       audioContextRef.current?.close();
-      if (backingTrackRef.current) {
-        backingTrackRef.current.pause();
-        backingTrackRef.current = null;
-      }
     };
-  }, []);
+  }, [loadKitCatalogue, loadKit, connectMixer]);
 
-  // Step timing based on BPM where 1 Beat = 4 Steps
-  // At 120 BPM: each beat = 500ms, each step = 125ms
-  const stepDuration = (60 / bpm / 4) * 1000;
+  // The pattern's meter decides the step grid and how many steps one view shows
+  const meter = getPatternMeter(pattern);
+  const stepsPerView = getStepsPerView(meter);
+
+  // Step timing from BPM and the meter's grid (16ths in 4/4: 125ms per step at 120 BPM)
+  // Used to quantize detected beats; playback timing lives in the transport scheduler
+  const stepDuration = getStepDuration(bpm, meter) * 1000;
 
   // Convert detected beats to pattern grid positions when listening
   const detectedPattern = useMemo(() => {
     if (!isListening || detectedBeats.length === 0) return null;
 
-    const newPattern: DrumPattern = {
-      'Kick': new Array(patternLength).fill(false),
-      'Snare': new Array(patternLength).fill(false),
-      'HH Closed': new Array(patternLength).fill(false),
-      'HH Open': new Array(patternLength).fill(false),
-      'Tom': new Array(patternLength).fill(false),
-      'Ghost Note': new Array(patternLength).fill(false),
-      'Crash Cymbal': new Array(patternLength).fill(false),
-      length: patternLength,
-    };
+    const newPattern = createEmptyPattern(stepsPerView, INSTRUMENT_IDS, { meter });
 
     const firstBeatTime = detectedBeats[0]?.timestamp || Date.now();
     
     detectedBeats.forEach(beat => {
       const relativeTime = beat.timestamp - firstBeatTime;
-      const stepPosition = Math.round(relativeTime / stepDuration) % patternLength;
+      const stepPosition = Math.round(relativeTime / stepDuration) % stepsPerView;
       
-      if (stepPosition >= 0 && stepPosition < patternLength && beat.confidence > 0.6) {
-        // Map detected beat types to instrument names
-        let instrumentKey = '';
+      if (stepPosition >= 0 && stepPosition < stepsPerView && beat.confidence > 0.6) {
+        // Map detected beat types to instrument ids
+        let instrumentKey: InstrumentId | null = null;
         if (beat.type === 'kick') instrumentKey = 'Kick';
         else if (beat.type === 'snare') instrumentKey = 'Snare';
         else if (beat.type === 'hihat') instrumentKey = 'HH Closed';
         else if (beat.type === 'openhat') instrumentKey = 'HH Open';
         
-        if (instrumentKey && newPattern[instrumentKey]) {
-          (newPattern[instrumentKey] as boolean[])[stepPosition] = true;
+        if (instrumentKey) {
+          newPattern.tracks[instrumentKey]![stepPosition] = createNote();
         }
       }
     });
 
     return newPattern;
-  }, [detectedBeats, stepDuration, isListening, patternLength]);
+  }, [detectedBeats, stepDuration, isListening, stepsPerView, meter]);
 
   // Display pattern: use detected pattern when listening, otherwise use manual pattern
   const displayPattern = isListening && detectedPattern ? detectedPattern : pattern;
 
+  // Seconds into the song at every step, following the tempo map scaled by the BPM control
+  const hasTempoMap = !!displayPattern.metadata.tempoMap;
+  const stepTimes = useMemo(() => getStepTimes(displayPattern, bpm), [displayPattern, bpm]);
+
+  // Practice loop over part of the pattern, and the sections it can be set from
+  const activeLoop = getValidLoopRegion(loopRegion, displayPattern.length);
+  const sectionRanges = useMemo(
+    () => getSectionRanges(displayPattern.metadata.sections, displayPattern.length),
+    [displayPattern.metadata.sections, displayPattern.length]
+  );
+
+  // The pattern's own backing track, or the default one
+  const backingTrack = getBackingTrack(displayPattern);
+  const backingTrackFile = backingTrack.file;
   useEffect(() => {
-    if (isPlaying) {
-      intervalRef.current = setInterval(() => {
-        setCurrentStep((prev) => {
-          const nextStep = (prev + 1) % displayPattern.length;
-          // Auto-scroll to next view if needed
-          const stepsPerView = patternLength;
-          const newView = Math.floor(nextStep / stepsPerView);
-          if (newView !== currentView) {
-            setCurrentView(newView);
-          }
-          return nextStep;
-        });
-      }, stepDuration);
-      
-      // Start backing track if enabled
-      if (backingTrackEnabled && backingTrackRef.current) {
-        backingTrackRef.current.play().catch(console.error);
-      }
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      
-      // Pause backing track
-      if (backingTrackRef.current) {
-        backingTrackRef.current.pause();
-      }
+    loadBackingTrack(backingTrackFile).catch(error => console.error('Failed to load backing track:', error));
+  }, [backingTrackFile, loadBackingTrack]);
+
+  // A newly decoded track restarts in step, and sets how long a practice session runs
+  useEffect(() => {
+    stopBackingTrack();
+    lastScheduledStepRef.current = null;
+    if (backingTrackBuffer) {
+      const duration = Math.floor(backingTrackBuffer.duration);
+      setBackingTrackDuration(duration);
+      setTimeRemaining(duration);
     }
+  }, [backingTrackBuffer, stopBackingTrack]);
+
+  // Queue every hit of a step against the audio clock, ahead of when it should sound.
+  // Swing and humanize move the hits here, so the pattern itself stays on the grid
+  const scheduleStep = (step: number, time: number, pass: number) => {
+    const earliest = audioContextRef.current?.currentTime ?? 0;
+    getGrooveHits(displayPattern, step, time, bpm, groove, pass).forEach(hit => {
+      playDrumSound(hit.instrument, Math.max(earliest, hit.time), hit.note);
+    });
+    followBackingTrack(step, time);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+    // Click on every felt pulse of the meter, accenting the downbeat
+    const level = getStepLevel(getPatternMeter(displayPattern), step);
+    if (metronomeEnabled && (level === 'bar' || level === 'pulse')) {
+      playMetronome(time, level === 'bar');
+    }
+  };
+
+  // Count-in at the tempo the first step plays at. Before a loop pass the backing track stops with the
+  // pattern, and comes back in with it through followBackingTrack
+  const getCountIn = (step: number, time: number, isLoopPass: boolean) => {
+    if (countIn.bars === 0 || (isLoopPass && !countIn.everyLoopPass)) return null;
+    if (isLoopPass) stopBackingTrack(time);
+    return getCountInBeats(getPatternMeter(displayPattern), getPlaybackTempo(displayPattern, step, bpm), countIn.bars, time);
+  };
+
+  const scheduleCountInBeat = (beat: CountInBeat) => {
+    playMetronome(beat.time, beat.accent);
+    if (countIn.voice) playCount(getChannelInput('metronome')!, beat.time, beat.count);
+  };
+
+  // Tempo trainer: count each pass or bar as the playhead finishes it, judged by the listener when it is on
+  const trainerTempo = getTrainerTempo(tempoTrainer, trainerProgress);
+  const isTrainerUnitStart = (playedPattern: DrumPattern, step: number) => {
+    const passStart = activeLoop?.start ?? 0;
+    return step === passStart ||
+      (tempoTrainer.unit === 'bars' && step % getStepsPerBar(getPatternMeter(playedPattern)) === 0);
+  };
+
+  // A hit played just early for the first step is heard before the pass starts, so those are kept
+  const startTrainerPass = () => {
+    trainerStepsRef.current = [];
+    const since = Date.now() - ACCURACY_WINDOW_MS;
+    trainerHeardRef.current = trainerHeardRef.current.filter(hit => hit.timestamp >= since);
+  };
+
+  const followTempoTrainer = (step: number) => {
+    const previous = previousPlayedStepRef.current;
+    previousPlayedStepRef.current = step;
+    if (!tempoTrainer.enabled) return;
+
+    // Judged against the grid the scheduler steps through, which is the detected one while listening
+    const playedPattern = displayPattern;
+
+    // A start or seek begins a fresh pass; only a pass or bar played from its start counts
+    const followsOn = previous !== null && getNextStep(previous, playedPattern.length, activeLoop) === step;
+    const played = followsOn ? trainerStepsRef.current : [];
+    if (followsOn && isTrainerUnitStart(playedPattern, step) && played.length > 0 &&
+      isTrainerUnitStart(playedPattern, played[0].step)) {
+      const accuracy = isListening ? scorePass(playedPattern, played, trainerHeardRef.current) : null;
+      const next = advanceTempoTrainer(tempoTrainer, trainerProgress, accuracy);
+      setTrainerProgress(next);
+
+      const nextTempo = getTrainerTempo(tempoTrainer, next);
+      if (next.stage < trainerProgress.stage) {
+        toast({
+          title: "Tempo Trainer",
+          description: `${Math.round((accuracy ?? 0) * 100)}% accuracy, stepping back to ${nextTempo} BPM`,
+        });
+      } else if (isTrainerComplete(tempoTrainer, next) && !isTrainerComplete(tempoTrainer, trainerProgress)) {
+        toast({
+          title: "Target Tempo Reached",
+          description: describeTrainerProgress(tempoTrainer, next),
+        });
       }
-    };
-  }, [isPlaying, stepDuration, backingTrackEnabled]);
+      startTrainerPass();
+    } else if (!followsOn) {
+      startTrainerPass();
+    }
+    trainerStepsRef.current.push({ step, timestamp: Date.now() });
+  };
 
-  // Separate effect for playing sounds based on currentStep
+  // Each stage of the trainer is a change of the BPM control, applied from the next step
   useEffect(() => {
-    if (isPlaying) {
-      // Update current section if sections data exists
-      if (displayPattern.sections && Array.isArray(displayPattern.sections)) {
-        const sectionAtCurrentStep = displayPattern.sections[currentStep];
-        if (sectionAtCurrentStep && sectionAtCurrentStep !== currentSection) {
-          setCurrentSection(sectionAtCurrentStep);
-        }
-      }
-      
-      // Play sounds for active notes at current step
-      Object.entries(displayPattern)
-        .filter(([key]) => key !== 'length' && key !== 'subdivisions' && key !== 'offsets' && key !== 'sections')
-        .forEach(([drum, steps]) => {
-          if (Array.isArray(steps) && steps[currentStep]) {
-            playDrumSound(drum);
-          }
-        });
+    if (!tempoTrainer.enabled) return;
+    setBpm(trainerTempo);
+    lastScheduledStepRef.current = null;
+  }, [tempoTrainer.enabled, trainerTempo]);
+
+  // A new tempo range starts the trainer again from the bottom
+  const changeTempoTrainer = (trainer: TempoTrainerSettings) => {
+    const stages = getTrainerStages(trainer);
+    const previousStages = getTrainerStages(tempoTrainer);
+    if (trainer.enabled !== tempoTrainer.enabled || stages.join() !== previousStages.join()) {
+      restartTempoTrainer();
+    }
+    setTempoTrainer(trainer);
+  };
+
+  const restartTempoTrainer = () => {
+    setTrainerProgress(INITIAL_TRAINER_PROGRESS);
+    trainerStepsRef.current = [];
+    trainerHeardRef.current = [];
+  };
+
+  // Read by the practice timer when the session ends
+  const trainerSummaryRef = useRef<string | null>(null);
+  trainerSummaryRef.current = tempoTrainer.enabled ? describeTrainerProgress(tempoTrainer, trainerProgress) : null;
+
+  // UI follows the audio clock: called once the scheduled step is actually sounding
+  const handleStepChange = (step: number) => {
+    setCurrentStep(step);
+    followTempoTrainer(step);
+
+    // Auto-scroll to the view containing the step
+    setCurrentView(Math.floor(step / stepsPerView));
 
-      // Play metronome on each beat (every 4 steps)
-      if (metronomeEnabled && currentStep % 4 === 0) {
-        playMetronome();
+    // Update current section if sections data exists
+    const { sections } = displayPattern.metadata;
+    if (sections) {
+      const sectionAtStep = sections[step];
+      if (sectionAtStep) {
+        setCurrentSection(sectionAtStep);
       }
     }
-  }, [currentStep, isPlaying, displayPattern, metronomeEnabled, currentSection]);
+  };
+
+  const {
+    start: startTransport,
+    stop: stopTransport,
+    seek: seekTransport
+  } = useTransportScheduler({
+    audioContextRef,
+    totalSteps: displayPattern.length,
+    getTempo: step => getPlaybackTempo(displayPattern, step, bpm),
+    stepsPerQuarter: getStepsPerQuarter(getPatternMeter(displayPattern)),
+    loopRegion: activeLoop,
+    onScheduleStep: scheduleStep,
+    onStepChange: handleStepChange,
+    getCountIn,
+    onScheduleCountIn: scheduleCountInBeat,
+    onCountInChange: setCountInBeat
+  });
 
-  // Countdown timer effect
+  // Silence the backing track whenever the transport stops; the next start realigns it
   useEffect(() => {
-    if (isPlaying) {
+    if (!isPlaying) {
+      stopBackingTrack();
+      lastScheduledStepRef.current = null;
+    }
+  }, [isPlaying, stopBackingTrack]);
+
+  // Countdown timer effect; songs with a tempo map show the time left in the song instead
+  useEffect(() => {
+    if (isPlaying && !hasTempoMap) {
       timerRef.current = setInterval(() => {
         setTimeRemaining((prev) => {
           if (prev <= 1) {
+            stopTransport();
             setIsPlaying(false);
             const minutes = Math.floor(backingTrackDuration / 60);
             const seconds = backingTrackDuration % 60;
             const timeString = seconds > 0 ? `${minutes}:${seconds.toString().padStart(2, '0')}` : `${minutes} minute${minutes !== 1 ? 's' : ''}`;
             toast({
               title: "Time's up!",
-              description: `${timeString} practice session completed`,
+              description: `${timeString} practice session completed` +
+                (trainerSummaryRef.current ? `. ${trainerSummaryRef.current}` : ''),
             });
             return backingTrackDuration;
           }
@@ -384,9 +501,25 @@ export const DrumMachine = () => {
         clearInterval(timerRef.current);
       }
     };
-  }, [isPlaying, toast, backingTrackDuration]);
+  }, [isPlaying, hasTempoMap, toast, backingTrackDuration, stopTransport]);
+
+  // Keep the backing track sample-aligned with the drums. Whenever the transport does anything but move on
+  // to the next step (start, seek, section jump, wrapping around a song) the track restarts at the time
+  // that step sounds, from where the recording is at that step
+  const followBackingTrack = (step: number, time: number) => {
+    const previous = lastScheduledStepRef.current;
+    lastScheduledStepRef.current = step;
+    if (!backingTrackEnabled || !backingTrackBuffer) return;
+
+    const isSong = isBackingTrackSong(displayPattern, backingTrack, backingTrackBuffer.duration);
+    const wrapsAround = previous === displayPattern.length - 1 && step === 0;
+    if (previous !== null && (step === previous + 1 || (wrapsAround && !isSong))) return;
+
+    const { position, playbackRate } = getBackingTrackPosition(displayPattern, backingTrack, step, bpm);
+    playBackingTrack(getChannelInput('backing')!, time, position, playbackRate, !isSong);
+  };
 
-  const playDrumSound = (drum: string) => {
+  const playDrumSound = (drum: InstrumentId, time: number, note: DrumNote = createNote()) => {
     // Return early if drum sounds are muted
     if (drumSoundsMuted) {
       return;
@@ -404,311 +537,18 @@ export const DrumMachine = () => {
       return;
     }
 
-    console.log(`Playing drum sound: ${drum}`);
-
-    // Normalize drum name for consistent matching
-    const normalizedDrum = drum.toLowerCase().replace(/[-\s]/g, '');
-
-    if (normalizedDrum.includes('hihat') || normalizedDrum.includes('hat') || normalizedDrum.includes('hh')) {
-      const isOpenHat = normalizedDrum.includes('open') || normalizedDrum.includes('crash');
-      
-      if (isOpenHat && hhOpenBufferRef.current) {
-        // Play loaded HH Open sample
-        const source = context.createBufferSource();
-        source.buffer = hhOpenBufferRef.current;
-        
-        // Add some processing to the HH Open sample
-        const gainNode = context.createGain();
-        const highpass = context.createBiquadFilter();
-        const presence = context.createBiquadFilter();
-        
-        // High-pass to clean up low-end
-        highpass.type = 'highpass';
-        highpass.frequency.setValueAtTime(8000, context.currentTime);
-        highpass.Q.setValueAtTime(0.7, context.currentTime);
-        
-        // Presence boost for sparkle
-        presence.type = 'peaking';
-        presence.frequency.setValueAtTime(12000, context.currentTime);
-        presence.Q.setValueAtTime(1.2, context.currentTime);
-        presence.gain.setValueAtTime(2, context.currentTime);
-        
-        // Signal chain
-        source.connect(highpass);
-        highpass.connect(presence);
-        presence.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Volume envelope
-        gainNode.gain.setValueAtTime(0.6, context.currentTime);
-        
-        source.start(context.currentTime);
-      } else if (hhClosedBufferRef.current) {
-        // Play loaded HH Closed sample
-        const source = context.createBufferSource();
-        source.buffer = hhClosedBufferRef.current;
-        
-        // Add some processing to the HH Closed sample
-        const gainNode = context.createGain();
-        const highpass = context.createBiquadFilter();
-        const crisp = context.createBiquadFilter();
-        
-        // High-pass for tightness
-        highpass.type = 'highpass';
-        highpass.frequency.setValueAtTime(10000, context.currentTime);
-        highpass.Q.setValueAtTime(0.8, context.currentTime);
-        
-        // Crisp boost for definition
-        crisp.type = 'peaking';
-        crisp.frequency.setValueAtTime(14000, context.currentTime);
-        crisp.Q.setValueAtTime(1.5, context.currentTime);
-        crisp.gain.setValueAtTime(1.5, context.currentTime);
-        
-        // Signal chain
-        source.connect(highpass);
-        highpass.connect(crisp);
-        crisp.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Volume envelope
-        gainNode.gain.setValueAtTime(0.5, context.currentTime);
-        
-        source.start(context.currentTime);
-      } else {
-        // Fallback synthesized closed hi-hat if sample not loaded
-        const bufferSize = context.sampleRate * 0.06;
-        const buffer = context.createBuffer(1, bufferSize, context.sampleRate);
-        const data = buffer.getChannelData(0);
-        
-        // Generate metallic noise for closed hat
-        for (let i = 0; i < bufferSize; i++) {
-          data[i] = (Math.random() * 2 - 1) * Math.exp(-i / bufferSize * 12);
-        }
-        
-        const noise = context.createBufferSource();
-        noise.buffer = buffer;
-        
-        // Filter chain for closed hi-hat character
-        const highpass = context.createBiquadFilter();
-        highpass.type = 'highpass';
-        highpass.frequency.setValueAtTime(9000, context.currentTime);
-        
-        const bandpass = context.createBiquadFilter();
-        bandpass.type = 'bandpass';
-        bandpass.frequency.setValueAtTime(11000, context.currentTime);
-        bandpass.Q.setValueAtTime(2, context.currentTime);
-        
-        const gainNode = context.createGain();
-        
-        noise.connect(highpass);
-        highpass.connect(bandpass);
-        bandpass.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Tight envelope for closed hat
-        gainNode.gain.setValueAtTime(0, context.currentTime);
-        gainNode.gain.linearRampToValueAtTime(0.3, context.currentTime + 0.001);
-        gainNode.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.06);
-        
-        noise.start(context.currentTime);
-        noise.stop(context.currentTime + 0.06);
-      }
-      
-    } else if (normalizedDrum.includes('snare') || normalizedDrum.includes('rim')) {
-      // Play loaded snare sample
-      if (snareBufferRef.current) {
-        const source = context.createBufferSource();
-        source.buffer = snareBufferRef.current;
-        
-        // Add some EQ and compression to the sample
-        const gainNode = context.createGain();
-        const compressor = context.createDynamicsCompressor();
-        const eqFilter = context.createBiquadFilter();
-        
-        // Subtle EQ to enhance the sample
-        eqFilter.type = 'peaking';
-        eqFilter.frequency.setValueAtTime(3000, context.currentTime);
-        eqFilter.Q.setValueAtTime(1.5, context.currentTime);
-        eqFilter.gain.setValueAtTime(2, context.currentTime);
-        
-        // Light compression for consistency
-        compressor.threshold.setValueAtTime(-12, context.currentTime);
-        compressor.knee.setValueAtTime(6, context.currentTime);
-        compressor.ratio.setValueAtTime(4, context.currentTime);
-        compressor.attack.setValueAtTime(0.003, context.currentTime);
-        compressor.release.setValueAtTime(0.1, context.currentTime);
-        
-        // Signal chain
-        source.connect(eqFilter);
-        eqFilter.connect(compressor);
-        compressor.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Volume envelope for consistency with other drums
-        gainNode.gain.setValueAtTime(0.7, context.currentTime);
-        
-        source.start(context.currentTime);
-      } else {
-        console.warn('Snare sample not loaded yet');
-      }
-      
-    } else if (normalizedDrum.includes('tom')) {
-      // Play loaded tom sample
-      if (tomBufferRef.current) {
-        const source = context.createBufferSource();
-        source.buffer = tomBufferRef.current;
-        
-        // Add some EQ to make it sound more tom-like
-        const gainNode = context.createGain();
-        const lowEQ = context.createBiquadFilter();
-        const midEQ = context.createBiquadFilter();
-        
-        // Lower pitch feel for tom
-        lowEQ.type = 'lowshelf';
-        lowEQ.frequency.setValueAtTime(200, context.currentTime);
-        lowEQ.gain.setValueAtTime(3, context.currentTime);
-        
-        // Mid scoop for tom character
-        midEQ.type = 'peaking';
-        midEQ.frequency.setValueAtTime(1500, context.currentTime);
-        midEQ.Q.setValueAtTime(2, context.currentTime);
-        midEQ.gain.setValueAtTime(-3, context.currentTime);
-        
-        // Signal chain
-        source.connect(lowEQ);
-        lowEQ.connect(midEQ);
-        midEQ.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Volume
-        gainNode.gain.setValueAtTime(0.65, context.currentTime);
-        
-        source.start(context.currentTime);
-      } else {
-        console.warn('Tom sample not loaded yet');
-      }
-      
-    } else if (normalizedDrum.includes('ghost') || normalizedDrum.includes('ghostnote')) {
-      // Ghost note - play ghost note sample
-      if (ghostNoteBufferRef.current) {
-        const source = context.createBufferSource();
-        source.buffer = ghostNoteBufferRef.current;
-        
-        const gainNode = context.createGain();
-        
-        // Signal chain
-        source.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Volume - ghost notes are naturally quiet
-        gainNode.gain.setValueAtTime(0.8, context.currentTime);
-        
-        source.start(context.currentTime);
-      } else {
-        console.warn('Ghost Note sample not loaded yet');
-      }
-      
-    } else if (normalizedDrum.includes('crash') || normalizedDrum.includes('crashcymbal')) {
-      // Crash Cymbal - play crash cymbal sample
-      if (crashCymbalBufferRef.current) {
-        const source = context.createBufferSource();
-        source.buffer = crashCymbalBufferRef.current;
-        
-        // Add processing for crash cymbal
-        const gainNode = context.createGain();
-        const highpass = context.createBiquadFilter();
-        const shimmer = context.createBiquadFilter();
-        
-        // High-pass to clean up low-end
-        highpass.type = 'highpass';
-        highpass.frequency.setValueAtTime(6000, context.currentTime);
-        highpass.Q.setValueAtTime(0.7, context.currentTime);
-        
-        // Shimmer boost for brightness
-        shimmer.type = 'peaking';
-        shimmer.frequency.setValueAtTime(10000, context.currentTime);
-        shimmer.Q.setValueAtTime(1.0, context.currentTime);
-        shimmer.gain.setValueAtTime(3, context.currentTime);
-        
-        // Signal chain
-        source.connect(highpass);
-        highpass.connect(shimmer);
-        shimmer.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Volume envelope for crash
-        gainNode.gain.setValueAtTime(0.7, context.currentTime);
-        
-        source.start(context.currentTime);
-      } else {
-        console.warn('Crash Cymbal sample not loaded yet');
-      }
-      
-    } else {
-      // Play loaded kick sample
-      if (kickBufferRef.current) {
-        const source = context.createBufferSource();
-        source.buffer = kickBufferRef.current;
-        
-        // Add EQ and compression to enhance the kick sample
-        const gainNode = context.createGain();
-        const compressor = context.createDynamicsCompressor();
-        const lowEQ = context.createBiquadFilter();
-        const midEQ = context.createBiquadFilter();
-        
-        // Low-end boost for punch
-        lowEQ.type = 'lowshelf';
-        lowEQ.frequency.setValueAtTime(80, context.currentTime);
-        lowEQ.gain.setValueAtTime(4, context.currentTime);
-        
-        // Mid clarity
-        midEQ.type = 'peaking';
-        midEQ.frequency.setValueAtTime(2500, context.currentTime);
-        midEQ.Q.setValueAtTime(1.5, context.currentTime);
-        midEQ.gain.setValueAtTime(2, context.currentTime);
-        
-        // Compression for punch
-        compressor.threshold.setValueAtTime(-8, context.currentTime);
-        compressor.knee.setValueAtTime(4, context.currentTime);
-        compressor.ratio.setValueAtTime(6, context.currentTime);
-        compressor.attack.setValueAtTime(0.001, context.currentTime);
-        compressor.release.setValueAtTime(0.06, context.currentTime);
-        
-        // Signal chain
-        source.connect(lowEQ);
-        lowEQ.connect(midEQ);
-        midEQ.connect(compressor);
-        compressor.connect(gainNode);
-        gainNode.connect(context.destination);
-        
-        // Volume envelope for consistency with other drums
-        gainNode.gain.setValueAtTime(0.8, context.currentTime);
-        
-        source.start(context.currentTime);
-      } else {
-        console.warn('Kick sample not loaded yet');
-      }
+    const voice = playDrumHit(context, getChannelInput(drum)!, drum, note, time, resolveKitNote(drum, note));
+    if (!voice) {
+      console.warn(`${drum} sample not loaded yet`);
+      return;
     }
+    voiceManagerRef.current.addVoice(voice, getInstrumentChokeGroup(drum), time);
   };
 
-  const playMetronome = () => {
+  const playMetronome = (time: number, accent = false) => {
     if (!audioContextRef.current) return;
 
-    const context = audioContextRef.current;
-    const oscillator = context.createOscillator();
-    const gainNode = context.createGain();
-
-    oscillator.connect(gainNode);
-    gainNode.connect(context.destination);
-
-    oscillator.frequency.setValueAtTime(1000, context.currentTime);
-    oscillator.type = 'sine';
-
-    gainNode.gain.setValueAtTime(0.1, context.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, context.currentTime + 0.05);
-
-    oscillator.start(context.currentTime);
-    oscillator.stop(context.currentTime + 0.05);
+    playMetronomeClick(audioContextRef.current, getChannelInput('metronome')!, time, accent);
   };
 
   const togglePlay = async () => {
@@ -716,7 +556,6 @@ export const DrumMachine = () => {
     if (audioContextRef.current?.state === 'suspended') {
       try {
         await audioContextRef.current.resume();
-        console.log('Audio context resumed successfully');
       } catch (error) {
         console.error('Failed to resume audio context:', error);
         toast({
@@ -728,8 +567,13 @@ export const DrumMachine = () => {
       }
     }
 
-    setIsPlaying(!isPlaying);
-    if (!isPlaying) {
+    if (isPlaying) {
+      stopTransport();
+      setIsPlaying(false);
+    } else {
+      // With a loop set, playing from outside it starts at the top of the loop
+      startTransport(activeLoop && !isStepInLoop(activeLoop, currentStep) ? activeLoop.start : currentStep);
+      setIsPlaying(true);
       toast({
         title: "Playing",
         description: "Drum pattern started",
@@ -738,16 +582,12 @@ export const DrumMachine = () => {
   };
 
   const reset = () => {
+    stopTransport();
     setIsPlaying(false);
-    setCurrentStep(0);
+    seekTransport(0);
     setTimeRemaining(120); // Reset timer to 2:00
     setCurrentSection(''); // Reset section
-    
-    // Reset backing track to beginning
-    if (backingTrackRef.current) {
-      backingTrackRef.current.currentTime = 0;
-      backingTrackRef.current.pause();
-    }
+    restartTempoTrainer();
     
     toast({
       title: "Reset",
@@ -756,7 +596,26 @@ export const DrumMachine = () => {
   };
 
   const changeBpm = (delta: number) => {
-    setBpm(prev => Math.max(60, Math.min(200, prev + delta)));
+    const newBpm = Math.max(60, Math.min(200, bpm + delta));
+    setBpm(newBpm);
+    // Realign the backing track at its new rate from the next step
+    lastScheduledStepRef.current = null;
+  };
+
+  // Tempo lane edits. The first change also pins the current tempo at step 0 so the steps before it keep playing at it
+  const setTempoChange = (event: TempoEvent) => {
+    setPattern(prev => {
+      const seeded = prev.metadata.tempoMap || event.step === 0 ? prev : setTempoEvent(prev, { step: 0, bpm });
+      return setTempoEvent(seeded, event);
+    });
+    // The BPM control is the tempo at step 0; keep it in step so the map is not rescaled
+    if (event.step === 0) {
+      setBpm(Math.max(60, Math.min(200, Math.round(event.bpm))));
+    }
+  };
+
+  const removeTempoChange = (step: number) => {
+    setPattern(prev => removeTempoEvent(prev, step));
   };
 
   // Helper function to get drum display info
@@ -782,93 +641,163 @@ export const DrumMachine = () => {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  const changePatternLength = (newLength: 8 | 16) => {
-    setPatternLength(newLength);
-    setCurrentStep(0);
-    setCurrentView(0);
-    
-    const newPattern: DrumPattern = { length: newLength };
-    
-    Object.keys(pattern).forEach(key => {
-      if (key !== 'length' && key !== 'subdivisions' && key !== 'offsets' && key !== 'sections') {
-        const oldSteps = pattern[key] as boolean[];
-        if (Array.isArray(oldSteps)) {
-          if (newLength === 8) {
-            // Take first 8 steps when going from 16 to 8
-            newPattern[key] = oldSteps.slice(0, 8);
-          } else {
-            // Extend to 16 steps when going from 8 to 16, duplicating the pattern
-            newPattern[key] = [...oldSteps, ...oldSteps];
-          }
-        }
-      }
-    });
-    
-    setPattern(newPattern);
-    toast({
-      title: "Pattern Length Changed",
-      description: `Now using ${newLength}-step pattern (${newLength === 8 ? '1 bar' : '2 bars'})`,
-    });
+  const changeKit = async (kitId: string) => {
+    try {
+      const nextKit = await loadKit(kitId);
+      toast({
+        title: "Kit Changed",
+        description: `Now playing ${nextKit.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to Load Kit",
+        description: error instanceof Error ? error.message : `Failed to load ${kitId}`,
+        variant: "destructive",
+      });
+    }
   };
 
-  const toggleStep = (drum: string, step: number) => {
+  // Associate a backing track with the pattern; null goes back to the default track
+  const setPatternBackingTrack = (track: BackingTrackRef | null) => {
     setPattern(prev => ({
       ...prev,
-      [drum]: (prev[drum] as boolean[]).map((active, index) => 
-        index === step ? !active : active
-      )
+      metadata: { ...prev.metadata, backingTrack: track || undefined }
     }));
+    lastScheduledStepRef.current = null;
+  };
+
+  const loadBackingTrackFile = (file: File) => {
+    setPatternBackingTrack(createBackingTrackFromFile(file));
+    setBackingTrackEnabled(true);
+    toast({
+      title: "Backing Track Loaded",
+      description: `${file.name} now plays with this pattern. Set its offset and tempo next to the backing track switch`,
+    });
+  };
+
+  // Jump playback and the grid to a step picked on the song timeline
+  const seekToStep = (step: number) => {
+    seekTransport(step);
+    setCurrentView(Math.floor(step / stepsPerView));
+  };
+
+  // Moving a section moves its notes, so a loop over the old steps no longer covers the same music
+  const moveSongSection = (index: number, direction: -1 | 1) => {
+    setPattern(prev => moveSection(prev, index, direction));
+    setLoopRegion(null);
+  };
+
+  // Set or clear the practice loop; the playhead moves into a new loop if it is outside it
+  const changeLoopRegion = (loop: LoopRegion | null) => {
+    setLoopRegion(loop);
+    if (loop && !isStepInLoop(loop, currentStep)) {
+      seekTransport(loop.start);
+      setCurrentView(Math.floor(loop.start / stepsPerView));
+    }
+  };
+
+  const changeMeter = (presetId: string) => {
+    const preset = METER_PRESETS.find(({ id }) => id === presetId);
+    if (!preset) return;
+
+    seekTransport(0);
+    setCurrentView(0);
+    setPattern(applyMeter(pattern, preset.meter));
+    toast({
+      title: "Time Signature Changed",
+      description: `Now using ${preset.label}`,
+    });
+  };
+
+  const toggleStep = (drum: InstrumentId, step: number) => {
+    setPattern(prev => togglePatternStep(prev, drum, step));
+  };
+
+  const updateNote = (drum: InstrumentId, step: number, changes: Partial<DrumNote>) => {
+    setPattern(prev => updatePatternNote(prev, drum, step, changes));
   };
 
   const clearPattern = () => {
-    const clearedPattern: DrumPattern = { length: patternLength };
-    
     // Clear all instrument patterns
-    Object.keys(pattern).forEach(key => {
-      if (key !== 'length' && key !== 'subdivisions' && key !== 'offsets' && key !== 'sections') {
-        clearedPattern[key] = new Array(patternLength).fill(false);
-      }
-    });
-    
-    setPattern(clearedPattern);
+    setPattern(clearPatternSteps(pattern, stepsPerView));
     toast({
       title: "Cleared",
       description: "All patterns cleared",
     });
   };
 
-  const loadCSVPattern = async () => {
+  // Install a freshly loaded pattern and summarise what it contains and what went wrong parsing it
+  const applyLoadedPattern = (
+    newPattern: DrumPattern,
+    source: {
+      fileName?: string;
+      format?: PatternFormat;
+      formatReason?: string;
+      diagnostics?: ParseDiagnostic[];
+      backingTrack?: BackingTrackRef;
+    } = {}
+  ) => {
+    setLoopRegion(null);
+    setPattern(source.backingTrack
+      ? { ...newPattern, metadata: { ...newPattern.metadata, backingTrack: source.backingTrack } }
+      : newPattern);
+    
+    // Reset playback state for the new pattern
+    seekTransport(0);
+    setCurrentView(0); // Reset to first view
+    setCurrentSection(''); // Reset section
+
+    // Follow the tempo the pattern was written at, when it carries one
+    if (newPattern.metadata.tempo || newPattern.metadata.tempoMap) {
+      setBpm(Math.max(60, Math.min(200, Math.round(getBaseTempo(newPattern)))));
+    }
+    
+    // Analyze loaded pattern to show component info
+    const activeComponents: string[] = [];
+    let totalBeats = 0;
+    
+    getTracks(newPattern).forEach(([drumType, steps]) => {
+      const activeSteps = countActiveSteps(steps);
+      if (activeSteps > 0) {
+        activeComponents.push(drumType);
+        totalBeats += activeSteps;
+      }
+    });
+    
+    setLoadedPatternInfo({
+      fileName: source.fileName,
+      format: source.format,
+      formatReason: source.formatReason,
+      componentsFound: activeComponents,
+      totalBeats,
+      diagnostics: source.diagnostics || []
+    });
+
+    return { activeComponents, totalBeats };
+  };
+
+  // Show the step a diagnostic points at in the grid
+  const jumpToStep = (step: number) => {
+    setDisplayMode('grid');
+    seekTransport(step);
+  };
+
+  const loadTextPattern = async (file: File, backingTrack?: BackingTrackRef) => {
     try {
-      const newPattern = await loadPatternFromFile();
-      setPattern(newPattern);
-      
-      // Reset playback state for the new pattern
-      setCurrentStep(0);
-      setCurrentView(0); // Reset to first view
-      setCurrentSection(''); // Reset section
-      
-      // Analyze loaded pattern to show component info
-      const activeComponents: string[] = [];
-      let totalBeats = 0;
-      
-      Object.entries(newPattern).forEach(([drumType, steps]) => {
-        if (drumType !== 'length' && drumType !== 'subdivisions' && drumType !== 'offsets' && drumType !== 'sections' && Array.isArray(steps)) {
-          const activeSteps = (steps as boolean[]).filter(Boolean).length;
-          if (activeSteps > 0) {
-            activeComponents.push(drumType);
-            totalBeats += activeSteps;
-          }
-        }
-      });
-      
-      setLoadedPatternInfo({
-        componentsFound: activeComponents,
-        totalBeats
+      const { pattern: newPattern, format, reason, diagnostics } = await loadPatternFromText(await file.text(), file.name);
+      const { activeComponents, totalBeats } = applyLoadedPattern(newPattern, {
+        fileName: file.name,
+        format,
+        formatReason: reason,
+        diagnostics,
+        backingTrack
       });
+      const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
       
       toast({
         title: "Pattern Loaded Successfully",
-        description: `${newPattern.length} steps, ${activeComponents.length} instruments, ${totalBeats} hits total`,
+        description: `${file.name} (${PATTERN_FORMAT_LABELS[format]}): ${newPattern.length} steps, ${activeComponents.length} instruments, ${totalBeats} hits total` +
+          (diagnostics.length > 0 ? `. ${errorCount} errors and ${diagnostics.length - errorCount} warnings, see the panel above the grid` : ''),
       });
     } catch (error) {
       // Show the actual error message from the hook
@@ -878,31 +807,170 @@ export const DrumMachine = () => {
         description: errorMessage,
         variant: "destructive",
       });
-      console.error('CSV loading error:', error);
+      console.error('Pattern loading error:', error);
+    }
+  };
+
+  // Single entry point for the file picker, drag-and-drop and the catalogue
+  const loadPatternFile = (file: File, backingTrack?: BackingTrackRef) =>
+    isMidiFileName(file.name) ? loadMidiPattern(file, backingTrack) : loadTextPattern(file, backingTrack);
+
+  const openPatternCatalogue = async () => {
+    setCatalogueOpen(true);
+    if (catalogueEntries.length > 0) return;
+
+    try {
+      setCatalogueEntries(await loadPatternCatalogue());
+    } catch (error) {
+      toast({
+        title: "Failed to Load Catalogue",
+        description: error instanceof Error ? error.message : 'Failed to load pattern catalogue',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadCatalogueEntry = async (entry: PatternCatalogueEntry) => {
+    setCatalogueOpen(false);
+    try {
+      await loadPatternFile(await fetchBundledPatternFile(entry.file), entry.backingTrack);
+    } catch (error) {
+      toast({
+        title: "Failed to Load Pattern",
+        description: error instanceof Error ? error.message : `Failed to load ${entry.file}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (event.currentTarget.contains(event.relatedTarget as Node)) return;
+    setIsDraggingFile(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+    const file = event.dataTransfer.files[0];
+    if (!file) return;
+    // Audio becomes the pattern's backing track, anything else a pattern
+    if (file.type.startsWith('audio/')) {
+      loadBackingTrackFile(file);
+    } else {
+      loadPatternFile(file);
+    }
+  };
+
+  const loadMidiPattern = async (file: File, backingTrack?: BackingTrackRef) => {
+    try {
+      const { pattern: newPattern, unmappedNotes } = await loadPatternFromMidiFile(file);
+      const { activeComponents, totalBeats } = applyLoadedPattern(newPattern, { fileName: file.name, format: 'midi', backingTrack });
+
+      toast({
+        title: "MIDI Pattern Loaded",
+        description: `${newPattern.length} steps, ${activeComponents.length} instruments, ${totalBeats} hits total at ${newPattern.metadata.tempo} BPM`,
+      });
+
+      // Report drum notes we have no instrument for instead of dropping them silently
+      if (unmappedNotes.length > 0) {
+        toast({
+          title: "Unmapped MIDI Notes Skipped",
+          description: unmappedNotes.map(({ note, name, count }) => `${name} (${note}) ×${count}`).join(', '),
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to load MIDI file';
+      toast({
+        title: "Failed to Load MIDI",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      console.error('MIDI loading error:', error);
+    }
+  };
+
+  const exportMidiPattern = () => {
+    const midiData = exportPatternToMidi(displayPattern, bpm, 'Drums');
+    downloadBlob(new Blob([midiData], { type: 'audio/midi' }), `drum-pattern-${bpm}bpm.mid`);
+    toast({
+      title: "MIDI Exported",
+      description: `${displayPattern.length} steps at ${bpm} BPM`,
+    });
+  };
+
+  // A song with a tempo map is one pass of the pattern; otherwise the song is the practice session length
+  const songSeconds = hasTempoMap ? stepTimes[displayPattern.length] : backingTrackDuration;
+
+  const exportAudio = async (settings: AudioExportSettings) => {
+    let backing: BackingTrackRender | undefined;
+
+    if (settings.backing && backingTrackBuffer) {
+      const { position, playbackRate } = getBackingTrackPosition(displayPattern, backingTrack, 0, bpm);
+      backing = {
+        buffer: backingTrackBuffer,
+        playbackRate,
+        position,
+        loop: !isBackingTrackSong(displayPattern, backingTrack, backingTrackBuffer.duration),
+        timeStretchQuality
+      };
+    } else if (settings.backing) {
+      toast({
+        title: "Backing Track Unavailable",
+        description: backingTrackError ? `Rendering without it: ${backingTrackError}` : "Rendering without it, it has not finished loading",
+        variant: "destructive",
+      });
+    }
+
+    try {
+      const blob = await renderPatternToWav({
+        pattern: displayPattern,
+        bpm,
+        loops: settings.length === 'song' ? Math.ceil(songSeconds / stepTimes[displayPattern.length]) : settings.loops,
+        duration: settings.length === 'song' ? songSeconds : undefined,
+        groove,
+        mixer,
+        createNoteResolver: createKitNoteResolver,
+        getChokeGroup: getInstrumentChokeGroup,
+        metronome: settings.metronome,
+        backing
+      });
+      downloadBlob(blob, `drum-pattern-${bpm}bpm.wav`);
+      setAudioExportOpen(false);
+      toast({
+        title: "Audio Exported",
+        description: `${(blob.size / (1024 * 1024)).toFixed(1)} MB WAV at ${bpm} BPM`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to render audio",
+        variant: "destructive",
+      });
     }
   };
 
   const clearLoadedPattern = () => {
     // Reset to initial empty pattern
-    const initialLength = 16;
-    const emptyPattern: DrumPattern = {
-      'Kick': new Array(initialLength).fill(false),
-      'Snare': new Array(initialLength).fill(false),
-      'HH Closed': new Array(initialLength).fill(false),
-      'HH Open': new Array(initialLength).fill(false),
-      'Tom': new Array(initialLength).fill(false),
-      'Ghost Note': new Array(initialLength).fill(false),
-      length: initialLength,
-    };
+    const emptyPattern = createEmptyPattern(16, ['Kick', 'Snare', 'HH Closed', 'HH Open', 'Tom']);
     
     setPattern(emptyPattern);
     setLoadedPatternInfo(null);
     
     // Reset playback
     if (isPlaying) {
+      stopTransport();
       setIsPlaying(false);
     }
-    setCurrentStep(0);
+    seekTransport(0);
     setCurrentView(0);
     
     toast({
@@ -912,7 +980,36 @@ export const DrumMachine = () => {
   };
 
   return (
-    <div className="min-h-screen bg-background p-6">
+    <div
+      className="relative min-h-screen bg-background p-6"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop Overlay */}
+      {isDraggingFile && (
+        <div className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center bg-background/80 border-4 border-dashed border-primary">
+          <p className="text-lg font-medium text-foreground">Drop a .csv, .txt or .mid pattern file to load it, or an audio file to play along with</p>
+        </div>
+      )}
+
+      <AudioExportDialog
+        open={audioExportOpen}
+        onOpenChange={setAudioExportOpen}
+        loopSeconds={stepTimes[displayPattern.length]}
+        songSeconds={songSeconds}
+        isRendering={isRendering}
+        onRender={exportAudio}
+      />
+
+      <PatternCatalogue
+        open={catalogueOpen}
+        onOpenChange={setCatalogueOpen}
+        entries={catalogueEntries}
+        isLoading={isLoadingCSV && catalogueEntries.length === 0}
+        onSelect={loadCatalogueEntry}
+      />
+
       <div className="max-w-6xl mx-auto">
         {/* Pattern Instructions */}
         <div className="text-center mb-6">
@@ -928,11 +1025,8 @@ export const DrumMachine = () => {
             <h3 className="text-sm font-semibold text-foreground mb-3">Available Drum Components</h3>
             <div className="space-y-2">
               {/* Drum Info */}
-              {Object.keys(displayPattern).filter(key => key !== 'length' && key !== 'subdivisions' && key !== 'offsets' && key !== 'sections').map((instrument) => {
-                const steps = displayPattern[instrument] as boolean[];
-                if (!Array.isArray(steps)) return null;
-                
-                const isActive = steps.some(Boolean);
+              {getTracks(displayPattern).map(([instrument, steps]) => {
+                const isActive = steps.some(note => note.active);
                 const drumInfo = getDrumInfo(instrument);
                 
                 return (
@@ -941,7 +1035,7 @@ export const DrumMachine = () => {
                     <span className="text-sm font-medium">{drumInfo.name}</span>
                     {isActive && (
                       <span className="ml-auto text-xs text-accent font-medium">
-                        {steps.filter(Boolean).length} beats
+                        {countActiveSteps(steps)} beats
                       </span>
                     )}
                   </div>
@@ -950,24 +1044,13 @@ export const DrumMachine = () => {
             </div>
           </div>
 
-          {/* Loaded Pattern Info */}
+          {/* Loaded Pattern Info and Parse Diagnostics */}
           {loadedPatternInfo && (
-            <div className="bg-card border border-border rounded-lg p-4">
-              <h3 className="text-sm font-semibold text-foreground mb-3">Loaded Pattern Info</h3>
-              <div className="space-y-2">
-                <div className="text-sm">
-                  <span className="text-muted-foreground">Components Found:</span>
-                  <span className="ml-2 font-medium">{loadedPatternInfo.componentsFound.length}</span>
-                </div>
-                <div className="text-sm">
-                  <span className="text-muted-foreground">Total Beats:</span>
-                  <span className="ml-2 font-medium">{loadedPatternInfo.totalBeats}</span>
-                </div>
-                <div className="text-xs text-muted-foreground mt-2">
-                  Active: {loadedPatternInfo.componentsFound.join(', ')}
-                </div>
-              </div>
-            </div>
+            <PatternDiagnosticsPanel
+              key={loadedPatternInfo.fileName}
+              info={loadedPatternInfo}
+              onJumpToStep={jumpToStep}
+            />
           )}
         </div>
 
@@ -992,11 +1075,8 @@ export const DrumMachine = () => {
             <div className="hidden bg-card border border-border rounded-lg p-4">
               <h3 className="text-sm font-semibold text-foreground mb-3">Available Drum Components</h3>
               <div className="space-y-2">
-                {Object.keys(displayPattern).filter(key => key !== 'length' && key !== 'subdivisions' && key !== 'offsets' && key !== 'sections').map((instrument) => {
-                  const steps = displayPattern[instrument] as boolean[];
-                  if (!Array.isArray(steps)) return null;
-                  
-                  const isActive = steps.some(Boolean);
+                {getTracks(displayPattern).map(([instrument, steps]) => {
+                  const isActive = steps.some(note => note.active);
                   const drumInfo = getDrumInfo(instrument);
                   
                   return (
@@ -1005,7 +1085,7 @@ export const DrumMachine = () => {
                       <span className="text-sm font-medium">{drumInfo.name}</span>
                       {isActive && (
                         <span className="ml-auto text-xs text-accent font-medium">
-                          {steps.filter(Boolean).length} beats
+                          {countActiveSteps(steps)} beats
                         </span>
                       )}
                     </div>
@@ -1013,26 +1093,6 @@ export const DrumMachine = () => {
                 })}
               </div>
             </div>
-
-            {/* Loaded Pattern Info */}
-            {loadedPatternInfo && (
-              <div className="bg-card border border-border rounded-lg p-4">
-                <h3 className="text-sm font-semibold text-foreground mb-3">Loaded Pattern Info</h3>
-                <div className="space-y-2">
-                  <div className="text-sm">
-                    <span className="text-muted-foreground">Components Found:</span>
-                    <span className="ml-2 font-medium">{loadedPatternInfo.componentsFound.length}</span>
-                  </div>
-                  <div className="text-sm">
-                    <span className="text-muted-foreground">Total Beats:</span>
-                    <span className="ml-2 font-medium">{loadedPatternInfo.totalBeats}</span>
-                  </div>
-                  <div className="text-xs text-muted-foreground mt-2">
-                    Active: {loadedPatternInfo.componentsFound.join(', ')}
-                  </div>
-                </div>
-              </div>
-            )}
           </div>
 
           {/* Detection Status */}
@@ -1052,7 +1112,7 @@ export const DrumMachine = () => {
           <div className="hidden flex items-center justify-center gap-4 mb-4">
             <span className="text-sm font-medium text-muted-foreground">Pattern Length:</span>
             <div className="flex items-center gap-2 bg-card border border-border rounded-lg px-3 py-2">
-              <span className="text-sm font-medium">16 Steps (2 Bars)</span>
+              <span className="text-sm font-medium">{stepsPerView} Steps ({stepsPerView / getStepsPerBar(meter)} Bars of {formatMeter(meter)})</span>
             </div>
           </div>
 
@@ -1060,10 +1120,33 @@ export const DrumMachine = () => {
           <PatternNavigation
             currentView={currentView}
             totalSteps={displayPattern.length}
-            stepsPerView={patternLength}
+            stepsPerView={stepsPerView}
             onViewChange={setCurrentView}
           />
 
+          {/* Song Structure */}
+          {!isListening && (displayPattern.length > stepsPerView || sectionRanges.length > 0) && (
+            <SongTimeline
+              pattern={displayPattern}
+              currentStep={currentStep}
+              onSeek={seekToStep}
+              onRenameSection={(index, name) => setPattern(prev => renameSection(prev, index, name))}
+              onSplitSection={(index, atStep) => setPattern(prev => splitSection(prev, index, atStep))}
+              onMergeSection={index => setPattern(prev => mergeSectionWithNext(prev, index))}
+              onMoveSection={moveSongSection}
+            />
+          )}
+
+          {/* Loop Region */}
+          {displayMode === 'grid' && (
+            <LoopControls
+              loopRegion={activeLoop}
+              sections={sectionRanges}
+              currentSection={currentSection}
+              onLoopChange={changeLoopRegion}
+            />
+          )}
+
           {/* Display Mode Toggle */}
           <div className="flex items-center justify-center gap-2 mb-4">
             <Button
@@ -1084,45 +1167,114 @@ export const DrumMachine = () => {
               <Music2 className="h-4 w-4" />
               Notation View
             </Button>
+            <Select
+              value={METER_PRESETS.find(preset => isSameMeter(preset.meter, meter))?.id}
+              onValueChange={changeMeter}
+            >
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue placeholder={formatMeter(meter)} />
+              </SelectTrigger>
+              <SelectContent>
+                {METER_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={kit?.id} onValueChange={changeKit} disabled={isLoadingKit || kits.length === 0}>
+              <SelectTrigger className="w-52 h-9">
+                <SelectValue placeholder={isLoadingKit ? "Loading kit..." : "Drum kit"} />
+              </SelectTrigger>
+              <SelectContent>
+                {kits.map(entry => (
+                  <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={mixerOpen ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setMixerOpen(!mixerOpen)}
+              className="flex items-center gap-2"
+            >
+              <SlidersVertical className="h-4 w-4" />
+              Mixer
+            </Button>
           </div>
 
           {/* Drum Display */}
           {displayMode === 'grid' ? (
-            <DrumGrid
-              pattern={displayPattern}
-              currentStep={currentStep}
-              currentView={currentView}
-              stepsPerView={patternLength}
-              onStepToggle={toggleStep}
-              onClearPattern={clearPattern}
-              metronomeEnabled={metronomeEnabled}
-              onMetronomeToggle={() => setMetronomeEnabled(!metronomeEnabled)}
-              onTogglePlay={togglePlay}
-              isPlaying={isPlaying}
-              onLoadPattern={loadCSVPattern}
-              isLoadingPattern={isLoadingPattern}
-              onClearLoadedPattern={clearLoadedPattern}
-              hasLoadedPattern={!!loadedPatternInfo}
-            />
+            <>
+              <DrumGrid
+                pattern={displayPattern}
+                currentStep={currentStep}
+                currentView={currentView}
+                stepsPerView={stepsPerView}
+                onStepToggle={toggleStep}
+                onNoteChange={updateNote}
+                onClearPattern={clearPattern}
+                metronomeEnabled={metronomeEnabled}
+                onMetronomeToggle={() => setMetronomeEnabled(!metronomeEnabled)}
+                onTogglePlay={togglePlay}
+                isPlaying={isPlaying}
+                onLoadPattern={openPatternCatalogue}
+                onLoadFile={loadPatternFile}
+                onExportMidi={exportMidiPattern}
+                onExportAudio={() => setAudioExportOpen(true)}
+                isLoadingPattern={isLoadingPattern}
+                onClearLoadedPattern={clearLoadedPattern}
+                hasLoadedPattern={!!loadedPatternInfo}
+                loopRegion={activeLoop}
+                onLoopChange={changeLoopRegion}
+              />
+              <TempoLane
+                pattern={displayPattern}
+                bpm={bpm}
+                currentStep={currentStep}
+                currentView={currentView}
+                stepsPerView={stepsPerView}
+                onSetTempo={setTempoChange}
+                onRemoveTempo={removeTempoChange}
+              />
+            </>
           ) : (
             <DrumNotation
               pattern={displayPattern}
               currentStep={currentStep}
               currentView={currentView}
-              stepsPerView={patternLength}
+              stepsPerView={stepsPerView}
               onStepToggle={toggleStep}
+              onNoteChange={updateNote}
               onClearPattern={clearPattern}
               metronomeEnabled={metronomeEnabled}
               onMetronomeToggle={() => setMetronomeEnabled(!metronomeEnabled)}
               onTogglePlay={togglePlay}
               isPlaying={isPlaying}
-              onLoadPattern={loadCSVPattern}
+              onLoadPattern={openPatternCatalogue}
+              onLoadFile={loadPatternFile}
+              onExportMidi={exportMidiPattern}
+              onExportAudio={() => setAudioExportOpen(true)}
               isLoadingPattern={isLoadingPattern}
               onClearLoadedPattern={clearLoadedPattern}
               hasLoadedPattern={!!loadedPatternInfo}
             />
           )}
 
+          {/* Mixer */}
+          {mixerOpen && (
+            <MixerPanel
+              mixer={mixer}
+              channels={[
+                ...getTracks(displayPattern).map(([instrument]): MixerChannelId => instrument),
+                'metronome',
+                'backing'
+              ]}
+              onChannelChange={updateMixerChannel}
+              onReset={resetMixer}
+              getChokeGroup={getInstrumentChokeGroup}
+              onChokeGroupChange={(drum, group) => setChokeOverrides(prev => ({ ...prev, [drum]: group }))}
+            />
+          )}
+
           {/* Bottom Toolbar */}
           <div className="flex justify-between items-center mt-8 max-w-4xl mx-auto">
             {/* Left Side Controls */}
@@ -1136,6 +1288,14 @@ export const DrumMachine = () => {
                 </div>
               )}
               
+              {countInBeat !== null && (
+                <div className="rounded-full px-4 py-2 bg-violet-600/30 border border-violet-500/50">
+                  <span className="text-sm font-bold font-mono text-violet-200">
+                    Count-in {countInBeat}
+                  </span>
+                </div>
+              )}
+
               {/* Custom Metronome Toggle */}
               <div className="flex items-center gap-3 rounded-[20px] px-4 py-2" style={{ backgroundColor: '#333537' }}>
                 <button
@@ -1161,6 +1321,13 @@ export const DrumMachine = () => {
                     className="w-8 h-8"
                   />
                 </div>
+
+                <CountInControls
+                  countIn={countIn}
+                  onChange={setCountIn}
+                  isLoadingVoice={isLoadingCountInVoice}
+                  voiceError={countInVoiceError}
+                />
               </div>
 
               {/* Drum Listener Toggle */}
@@ -1168,6 +1335,7 @@ export const DrumMachine = () => {
                 <button
                   onClick={handleListenerToggle}
                   disabled={!isModelLoaded}
+                  title={listenerModelName ? `Drum recognition: ${listenerModelName}` : undefined}
                   className={cn(
                     "relative inline-flex h-6 w-10 items-center rounded-full transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed",
                     isListening ? "bg-red-600" : "bg-gray-300"
@@ -1235,13 +1403,11 @@ export const DrumMachine = () => {
                     const newState = !backingTrackEnabled;
                     setBackingTrackEnabled(newState);
                     
-                    // Immediately control the backing track audio
-                    if (backingTrackRef.current) {
-                      if (newState && isPlaying) {
-                        backingTrackRef.current.play().catch(console.error);
-                      } else {
-                        backingTrackRef.current.pause();
-                      }
+                    // Switching on joins in at the next step; switching off silences it right away
+                    if (newState) {
+                      lastScheduledStepRef.current = null;
+                    } else {
+                      stopBackingTrack();
                     }
                   }}
                   className={cn(
@@ -1261,6 +1427,19 @@ export const DrumMachine = () => {
                 <div className="flex items-center justify-center w-8 h-8 rounded-full" style={{ backgroundColor: backingTrackEnabled ? '#3B82F6' : '#786C7D' }}>
                   <Music className="h-4 w-4 text-white" />
                 </div>
+
+                <BackingTrackControls
+                  track={backingTrack}
+                  isDefault={!pattern.metadata.backingTrack}
+                  duration={backingTrackSeconds}
+                  isLoading={isLoadingBackingTrack}
+                  error={backingTrackError}
+                  onChange={setPatternBackingTrack}
+                  onLoadFile={loadBackingTrackFile}
+                  timeStretchQuality={timeStretchQuality}
+                  onTimeStretchQualityChange={setTimeStretchQuality}
+                  sampleRate={audioContextRef.current?.sampleRate ?? 44100}
+                />
               </div>
             </div>
 
@@ -1280,9 +1459,18 @@ export const DrumMachine = () => {
                 <div className="flex items-center gap-2 px-3">
                   <div className="w-3 h-3 rounded-full bg-tempo-accent"></div>
                   <div className="w-3 h-3 rounded-full bg-primary"></div>
-                  <span className="text-2xl font-bold text-foreground mx-3">
-                    {bpm}
-                  </span>
+                  <div className="flex flex-col items-center mx-3">
+                    <span className="text-2xl font-bold text-foreground">
+                      {Math.round(getPlaybackTempo(displayPattern, currentStep, bpm))}
+                    </span>
+                    {tempoTrainer.enabled && (
+                      <span className="text-[10px] font-mono text-primary whitespace-nowrap" title="Tempo trainer stage">
+                        Stage {trainerProgress.stage + 1}/{getTrainerStages(tempoTrainer).length}
+                        {!isTrainerComplete(tempoTrainer, trainerProgress) &&
+                          ` · ${trainerProgress.repeats}/${Math.max(1, tempoTrainer.repeats)} ${tempoTrainer.unit === 'bars' ? 'bars' : 'passes'}`}
+                      </span>
+                    )}
+                  </div>
                 </div>
                 
                 <Button
@@ -1293,12 +1481,23 @@ export const DrumMachine = () => {
                 >
                   <Plus className="h-4 w-4" />
                 </Button>
+
+                <GrooveControls groove={groove} onChange={setGroove} />
+                <TempoTrainerControls
+                  trainer={tempoTrainer}
+                  progress={trainerProgress}
+                  onChange={changeTempoTrainer}
+                  onRestart={restartTempoTrainer}
+                  isListening={isListening}
+                />
               </div>
 
               {/* Timer Display */}
               <div className="flex items-center gap-2 px-4 py-2 bg-secondary rounded-lg">
                 <div className="text-2xl font-bold text-foreground">
-                  {formatTime(timeRemaining)}
+                  {formatTime(hasTempoMap
+                    ? Math.ceil(stepTimes[displayPattern.length] - stepTimes[currentStep])
+                    : timeRemaining)}
                 </div>
               </div>
 
@@ -1,54 +1,49 @@
+import { useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { Trash2, Upload, Loader2, RotateCcw } from "lucide-react";
+import { Trash2, Library, Loader2, RotateCcw, Upload, Download, FileAudio } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PATTERN_FILE_ACCEPT } from "@/lib/patternFormats";
+import { getCountLabel, getPatternMeter, getStepLevel } from "@/lib/meter";
+import { DrumNote, DrumPattern, InstrumentId, cycleArticulation, getTracks, isStepActive } from "@/lib/drumPattern";
 
 interface DrumNotationProps {
-  pattern: {
-    [key: string]: boolean[] | number | string[] | number[];
-    length: number;
-    subdivisions?: string[];
-    offsets?: number[];
-  };
+  pattern: DrumPattern;
   currentStep: number;
   currentView?: number;
   stepsPerView?: number;
-  onStepToggle: (drum: string, step: number) => void;
+  onStepToggle: (drum: InstrumentId, step: number) => void;
+  onNoteChange?: (drum: InstrumentId, step: number, changes: Partial<DrumNote>) => void;
   onClearPattern: () => void;
   metronomeEnabled: boolean;
   onMetronomeToggle: () => void;
   onTogglePlay: () => void;
   isPlaying: boolean;
   onLoadPattern?: () => void;
+  onLoadFile?: (file: File) => void;
+  onExportMidi?: () => void;
+  onExportAudio?: () => void;
   isLoadingPattern?: boolean;
   onClearLoadedPattern?: () => void;
   hasLoadedPattern?: boolean;
 }
 
 // Drum positions on the staff (absolute Y coordinates aligned with staff lines)
-// Supports both title-case (manual) and lowercase (CSV) naming conventions
-const drumPositions: { [key: string]: { y: number; noteType: 'note' | 'x' | 'open' } } = {
+// Instruments without a position are not drawn on the staff
+const drumPositions: Partial<Record<InstrumentId, { y: number; noteType: 'note' | 'x' | 'open' }>> = {
   // Kick drum (bottom staff line) - filled notehead
   'Kick': { y: 120, noteType: 'note' },
-  'kick': { y: 120, noteType: 'note' },
   
   // Tom-tom (between snare and kick) - filled notehead
   'Tom': { y: 100, noteType: 'note' },
-  'tom': { y: 100, noteType: 'note' },
-  'tom-tom': { y: 100, noteType: 'note' },
   
   // Snare drum (middle staff line) - filled notehead
   'Snare': { y: 80, noteType: 'note' },
-  'snare': { y: 80, noteType: 'note' },
   
   // Closed hi-hat (top staff line) - X notehead
   'HH Closed': { y: 40, noteType: 'x' },
-  'Hi-Hat': { y: 40, noteType: 'x' },
-  'hihat': { y: 40, noteType: 'x' },
   
   // Open hi-hat (top staff line) - X notehead with circle above
   'HH Open': { y: 40, noteType: 'open' },
-  'Hi-Hat (Open)': { y: 40, noteType: 'open' },
-  'openhat': { y: 40, noteType: 'open' },
 };
 
 export const DrumNotation = ({
@@ -57,22 +52,28 @@ export const DrumNotation = ({
   currentView = 0,
   stepsPerView = 16,
   onStepToggle,
+  onNoteChange,
   onClearPattern,
   metronomeEnabled,
   onMetronomeToggle,
   onTogglePlay,
   isPlaying,
   onLoadPattern,
+  onLoadFile,
+  onExportMidi,
+  onExportAudio,
   isLoadingPattern,
   onClearLoadedPattern,
   hasLoadedPattern
 }: DrumNotationProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const startStep = currentView * stepsPerView;
   const endStep = Math.min(startStep + stepsPerView, pattern.length);
+  const meter = getPatternMeter(pattern);
   const visibleSteps = endStep - startStep;
 
   // Render a note at a specific position
-  const renderNote = (drum: string, stepIndex: number, x: number, y: number) => {
+  const renderNote = (drum: InstrumentId, stepIndex: number, x: number, y: number) => {
     const drumInfo = drumPositions[drum];
     if (!drumInfo) return null;
 
@@ -209,6 +210,35 @@ export const DrumNotation = ({
     }
   };
 
+  // Accent mark above the stem, parentheses around ghosted noteheads
+  const renderArticulation = (drum: InstrumentId, note: DrumNote, stepIndex: number, x: number, y: number) => {
+    const colorClass = stepIndex === currentStep ? "text-playhead" : "text-note-active";
+
+    if (note.ghost) {
+      return (
+        <g key={`${drum}-${stepIndex}-ghost`} className={cn("transition-all", colorClass)}>
+          <text x={x - 13} y={y + 5} textAnchor="middle" fill="currentColor" className="text-base">(</text>
+          <text x={x + 15} y={y + 5} textAnchor="middle" fill="currentColor" className="text-base">)</text>
+        </g>
+      );
+    }
+
+    if (note.accent) {
+      return (
+        <polyline
+          key={`${drum}-${stepIndex}-accent`}
+          points={`${x - 6},${y - 46} ${x + 6},${y - 41} ${x - 6},${y - 36}`}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          className={cn("transition-all", colorClass)}
+        />
+      );
+    }
+
+    return null;
+  };
+
   return (
     <div className="space-y-6">
       {/* Controls */}
@@ -239,9 +269,53 @@ export const DrumNotation = ({
             {isLoadingPattern ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
-              <Upload className="h-4 w-4" />
+              <Library className="h-4 w-4" />
             )}
-            Load CSV
+            Browse Patterns
+          </Button>
+        )}
+        {onLoadFile && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={PATTERN_FILE_ACCEPT}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onLoadFile(file);
+                event.target.value = '';
+              }}
+              className="hidden"
+            />
+            <Button 
+              onClick={() => fileInputRef.current?.click()} 
+              variant="outline" 
+              className="flex items-center gap-2"
+              disabled={isLoadingPattern}
+            >
+              <Upload className="h-4 w-4" />
+              Load File
+            </Button>
+          </>
+        )}
+        {onExportMidi && (
+          <Button 
+            onClick={onExportMidi} 
+            variant="outline" 
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export MIDI
+          </Button>
+        )}
+        {onExportAudio && (
+          <Button 
+            onClick={onExportAudio} 
+            variant="outline" 
+            className="flex items-center gap-2"
+          >
+            <FileAudio className="h-4 w-4" />
+            Export WAV
           </Button>
         )}
         {onClearLoadedPattern && hasLoadedPattern && (
@@ -288,6 +362,18 @@ export const DrumNotation = ({
             </svg>
             <span>Open HH</span>
           </div>
+          <div className="flex items-center gap-2">
+            <svg width="20" height="20" viewBox="0 0 20 20">
+              <polyline points="4,5 16,10 4,15" fill="none" stroke="currentColor" strokeWidth="2" className="text-note-active" />
+            </svg>
+            <span>Accent</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <svg width="20" height="20" viewBox="0 0 20 20">
+              <text x="10" y="14" textAnchor="middle" fill="currentColor" className="text-note-active text-xs">(●)</text>
+            </svg>
+            <span>Ghost</span>
+          </div>
         </div>
 
         {/* Staff SVG */}
@@ -311,9 +397,13 @@ export const DrumNotation = ({
             />
           ))}
 
-          {/* Bar lines */}
-          {Array.from({ length: Math.ceil(visibleSteps / 4) + 1 }, (_, i) => {
-            const x = 40 + (i * 4 * 920) / visibleSteps;
+          {/* Bar lines, with lighter lines on each beat */}
+          {Array.from({ length: visibleSteps + 1 }, (_, i) => {
+            const stepIndex = startStep + i;
+            const isBarLine = i === visibleSteps || getStepLevel(meter, stepIndex) === 'bar';
+            if (!isBarLine && stepIndex % meter.stepsPerBeat !== 0) return null;
+
+            const x = 40 + (i * 920) / visibleSteps;
             return (
               <line
                 key={i}
@@ -322,8 +412,8 @@ export const DrumNotation = ({
                 y1={40}
                 y2={120}
                 stroke="currentColor"
-                strokeWidth={i === 0 ? "3" : "1.5"}
-                className="text-primary/40"
+                strokeWidth={isBarLine ? "3" : "1"}
+                className={isBarLine ? "text-primary/40" : "text-primary/15"}
               />
             );
           })}
@@ -332,19 +422,18 @@ export const DrumNotation = ({
           {Array.from({ length: visibleSteps }, (_, i) => {
             const stepIndex = startStep + i;
             const x = 60 + (i * 920) / visibleSteps;
-            const posInBar = stepIndex % 8;
+            const level = getStepLevel(meter, stepIndex);
             
-            if (posInBar % 2 === 0) {
-              const beatNum = Math.floor(posInBar / 2) + 1;
+            if (level !== 'sub') {
               return (
                 <text
                   key={i}
                   x={x}
                   y={25}
                   textAnchor="middle"
-                  className="text-xs font-bold fill-primary"
+                  className={level === 'beat' ? "text-xs fill-accent" : "text-xs font-bold fill-primary"}
                 >
-                  {beatNum}
+                  {getCountLabel(meter, stepIndex)}
                 </text>
               );
             }
@@ -368,19 +457,16 @@ export const DrumNotation = ({
           )}
 
           {/* Notes */}
-          {Object.entries(pattern)
-            .filter(([key]) => key !== 'length' && key !== 'subdivisions' && key !== 'offsets' && key !== 'sections')
+          {getTracks(pattern)
             .map(([drumKey, steps]) => {
-              if (!Array.isArray(steps)) return null;
-              
               const drumInfo = drumPositions[drumKey];
               if (!drumInfo) return null;
               
               return Array.from({ length: visibleSteps }, (_, i) => {
                 const stepIndex = startStep + i;
-                const active = steps[stepIndex];
+                const note = steps[stepIndex];
                 
-                if (!active) return null;
+                if (!note?.active) return null;
                 
                 const x = 60 + (i * 920) / visibleSteps;
                 const y = drumInfo.y;
@@ -389,7 +475,14 @@ export const DrumNotation = ({
                   <g
                     key={`${drumKey}-${stepIndex}`}
                     onClick={() => onStepToggle(drumKey, stepIndex)}
+                    onContextMenu={(event) => {
+                      // Right-click cycles normal -> accent -> ghost
+                      if (!onNoteChange) return;
+                      event.preventDefault();
+                      onNoteChange(drumKey, stepIndex, cycleArticulation(note));
+                    }}
                     className="cursor-pointer"
+                    opacity={0.35 + note.velocity * 0.65}
                   >
                     {/* Clickable area */}
                     <rect
@@ -400,17 +493,18 @@ export const DrumNotation = ({
                       fill="transparent"
                     />
                     {renderNote(drumKey, stepIndex, x, y)}
+                    {renderArticulation(drumKey, note, stepIndex, x, y)}
                   </g>
                 );
               });
             })}
 
           {/* Clickable areas for adding notes */}
-          {Object.entries(drumPositions).map(([drumKey, drumInfo]) => {
+          {(Object.keys(drumPositions) as InstrumentId[]).map((drumKey) => {
+            const drumInfo = drumPositions[drumKey]!;
             return Array.from({ length: visibleSteps }, (_, i) => {
               const stepIndex = startStep + i;
-              const steps = pattern[drumKey] as boolean[];
-              if (!steps || steps[stepIndex]) return null;
+              if (!pattern.tracks[drumKey] || isStepActive(pattern, drumKey, stepIndex)) return null;
               
               const x = 60 + (i * 920) / visibleSteps;
               const y = drumInfo.y;
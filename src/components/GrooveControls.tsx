@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Dices, SlidersHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  GrooveSettings,
+  MAX_TIMING_JITTER_MS,
+  MAX_VELOCITY_JITTER,
+  SwingUnit,
+  createGrooveSeed
+} from "@/lib/groove";
+
+interface GrooveControlsProps {
+  groove: GrooveSettings;
+  onChange: (groove: GrooveSettings) => void;
+}
+
+export const GrooveControls = ({ groove, onChange }: GrooveControlsProps) => {
+  const update = (changes: Partial<GrooveSettings>) => onChange({ ...groove, ...changes });
+  const isActive = groove.swing > 0 || groove.timingJitter > 0 || groove.velocityJitter > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Swing and humanize"
+          className={cn("h-8 w-8", isActive && "text-primary")}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Swing</Label>
+            <span className="text-xs font-mono text-muted-foreground">{Math.round(groove.swing * 100)}%</span>
+          </div>
+          <Slider
+            value={[groove.swing * 100]}
+            max={100}
+            step={1}
+            onValueChange={([value]) => update({ swing: value / 100 })}
+          />
+          <Select value={groove.swingUnit} onValueChange={(value: SwingUnit) => update({ swingUnit: value })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="8th">Swing off-beat 8ths</SelectItem>
+              <SelectItem value="16th">Swing off-beat 16ths</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Timing humanize</Label>
+            <span className="text-xs font-mono text-muted-foreground">±{groove.timingJitter} ms</span>
+          </div>
+          <Slider
+            value={[groove.timingJitter]}
+            max={MAX_TIMING_JITTER_MS}
+            step={1}
+            onValueChange={([value]) => update({ timingJitter: value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Velocity humanize</Label>
+            <span className="text-xs font-mono text-muted-foreground">±{Math.round(groove.velocityJitter * 100)}%</span>
+          </div>
+          <Slider
+            value={[groove.velocityJitter * 100]}
+            max={MAX_VELOCITY_JITTER * 100}
+            step={1}
+            onValueChange={([value]) => update({ velocityJitter: value / 100 })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="groove-seed">Seed</Label>
+          <div className="flex gap-2">
+            <Input
+              id="groove-seed"
+              type="number"
+              min={1}
+              value={groove.seed}
+              onChange={event => update({ seed: Math.max(1, parseInt(event.target.value) || 1) })}
+              className="h-8"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              title="New seed"
+              className="h-8 w-8 shrink-0"
+              onClick={() => update({ seed: createGrooveSeed() })}
+            >
+              <Dices className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,58 @@
+import { Button } from "@/components/ui/button";
+import { Repeat, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { LoopRegion, SectionRange, isSameLoopRegion } from "@/lib/loopRegion";
+
+interface LoopControlsProps {
+  loopRegion: LoopRegion | null;
+  sections: SectionRange[];
+  currentSection?: string;
+  onLoopChange: (loop: LoopRegion | null) => void;
+}
+
+export const LoopControls = ({
+  loopRegion,
+  sections,
+  currentSection,
+  onLoopChange
+}: LoopControlsProps) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-card border border-border rounded-lg p-3 mb-4">
+      <div className={cn("flex items-center gap-2 text-sm font-medium", loopRegion ? "text-primary" : "text-muted-foreground")}>
+        <Repeat className="h-4 w-4" />
+        {loopRegion
+          ? `Looping steps ${loopRegion.start}-${loopRegion.end - 1}`
+          : "Drag across the step numbers or pick a section to loop it"}
+      </div>
+      {loopRegion && (
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="Clear loop" onClick={() => onLoopChange(null)}>
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+
+      {sections.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 ml-auto">
+          {sections.map(section => {
+            const isLooped = isSameLoopRegion(loopRegion, section);
+            return (
+              <button
+                key={section.start}
+                onClick={() => onLoopChange(isLooped ? null : { start: section.start, end: section.end })}
+                title={`Steps ${section.start}-${section.end - 1}`}
+                className={cn(
+                  "rounded-full px-3 py-1 text-xs font-medium border transition-colors",
+                  isLooped
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "bg-primary/10 text-primary border-primary/30 hover:bg-primary/20",
+                  !isLooped && section.name === currentSection && "ring-1 ring-primary"
+                )}
+              >
+                {section.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { InstrumentId, isInstrumentId } from "@/lib/drumPattern";
+import { CHOKE_GROUP_OPTIONS } from "@/lib/voiceManager";
+import {
+  ChannelSettings,
+  MAX_CHANNEL_VOLUME,
+  MIXER_CHANNEL_LABELS,
+  MixerChannelId,
+  MixerSettings,
+  formatChannelVolume,
+  isChannelAudible
+} from "@/lib/mixer";
+
+interface MixerPanelProps {
+  mixer: MixerSettings;
+  channels: MixerChannelId[];
+  onChannelChange: (id: MixerChannelId, changes: Partial<ChannelSettings>) => void;
+  onReset: () => void;
+  // Choke group of each instrument channel; instruments in one group cut each other off
+  getChokeGroup?: (instrument: InstrumentId) => string | null;
+  onChokeGroupChange?: (instrument: InstrumentId, group: string | null) => void;
+}
+
+// Select items cannot have an empty value
+const NO_CHOKE_GROUP = 'none';
+
+const formatPan = (pan: number): string => {
+  if (Math.abs(pan) < 0.01) return 'C';
+  return `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`;
+};
+
+export const MixerPanel = ({
+  mixer,
+  channels,
+  onChannelChange,
+  onReset,
+  getChokeGroup,
+  onChokeGroupChange
+}: MixerPanelProps) => {
+  return (
+    <div className="bg-card rounded-lg p-4 shadow-elevated">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-foreground">Mixer</h3>
+        <Button variant="ghost" size="sm" onClick={onReset} className="flex items-center gap-2">
+          <RotateCcw className="h-4 w-4" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3">
+        {channels.map(id => {
+          const channel = mixer[id];
+          const audible = isChannelAudible(mixer, id);
+
+          return (
+            <div
+              key={id}
+              className={cn(
+                "flex flex-col gap-3 rounded-lg border border-border p-3 transition-opacity",
+                !audible && "opacity-50"
+              )}
+            >
+              <div className="text-xs font-medium text-foreground truncate" title={MIXER_CHANNEL_LABELS[id]}>
+                {MIXER_CHANNEL_LABELS[id]}
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-[10px] font-mono text-muted-foreground">{formatChannelVolume(channel.volume)}</div>
+                <Slider
+                  value={[channel.volume * 100]}
+                  max={MAX_CHANNEL_VOLUME * 100}
+                  step={1}
+                  onValueChange={([value]) => onChannelChange(id, { volume: value / 100 })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-[10px] font-mono text-muted-foreground">Pan {formatPan(channel.pan)}</div>
+                <Slider
+                  value={[channel.pan * 100]}
+                  min={-100}
+                  max={100}
+                  step={1}
+                  onValueChange={([value]) => onChannelChange(id, { pan: value / 100 })}
+                  onDoubleClick={() => onChannelChange(id, { pan: 0 })}
+                />
+              </div>
+
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant={channel.mute ? "destructive" : "outline"}
+                  className="h-7 flex-1 px-0"
+                  title="Mute"
+                  onClick={() => onChannelChange(id, { mute: !channel.mute })}
+                >
+                  M
+                </Button>
+                <Button
+                  size="sm"
+                  variant={channel.solo ? "default" : "outline"}
+                  className={cn("h-7 flex-1 px-0", channel.solo && "bg-yellow-500 hover:bg-yellow-500/90 text-background")}
+                  title="Solo"
+                  onClick={() => onChannelChange(id, { solo: !channel.solo })}
+                >
+                  S
+                </Button>
+              </div>
+
+              {isInstrumentId(id) && getChokeGroup && onChokeGroupChange && (
+                <Select
+                  value={getChokeGroup(id) || NO_CHOKE_GROUP}
+                  onValueChange={value => onChokeGroupChange(id, value === NO_CHOKE_GROUP ? null : value)}
+                >
+                  <SelectTrigger className="h-7 text-xs" title="Choke group">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CHOKE_GROUP}>No choke</SelectItem>
+                    {CHOKE_GROUP_OPTIONS.map(option => (
+                      <SelectItem key={option.id} value={option.id}>Choke: {option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
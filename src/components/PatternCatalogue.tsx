@@ -0,0 +1,63 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { PatternCatalogueEntry } from "@/hooks/useCSVPatternLoader";
+import { PATTERN_FORMAT_LABELS } from "@/lib/patternFormats";
+
+interface PatternCatalogueProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: PatternCatalogueEntry[];
+  isLoading?: boolean;
+  onSelect: (entry: PatternCatalogueEntry) => void;
+}
+
+export const PatternCatalogue = ({
+  open,
+  onOpenChange,
+  entries,
+  isLoading,
+  onSelect
+}: PatternCatalogueProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Bundled Patterns</DialogTitle>
+          <DialogDescription>
+            Pick a pattern to load, or drop a .csv, .txt or .mid file anywhere on the page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading catalogue...
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto pr-1 space-y-2">
+            {entries.map(entry => (
+              <Button
+                key={entry.file}
+                variant="outline"
+                className="w-full h-auto justify-between gap-4 py-3 text-left"
+                disabled={!entry.format}
+                onClick={() => onSelect(entry)}
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.title}</div>
+                  <div className="text-xs text-muted-foreground truncate">{entry.file}</div>
+                  {entry.problem && <div className="text-xs text-destructive truncate">{entry.problem}</div>}
+                </div>
+                <Badge variant={entry.format ? "secondary" : "destructive"} className="shrink-0">
+                  {entry.format ? PATTERN_FORMAT_LABELS[entry.format] : "Unrecognised"}
+                </Badge>
+              </Button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
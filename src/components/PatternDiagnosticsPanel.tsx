@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, AlertTriangle, CheckCircle2, CornerDownRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PatternFormat, PATTERN_FORMAT_LABELS } from "@/lib/patternFormats";
+import { DiagnosticSeverity, ParseDiagnostic } from "@/lib/patternParsers";
+
+export interface LoadedPatternInfo {
+  fileName?: string;
+  format?: PatternFormat;
+  formatReason?: string; // Why the file was read as that format
+  componentsFound: string[];
+  totalBeats: number;
+  diagnostics: ParseDiagnostic[];
+}
+
+interface PatternDiagnosticsPanelProps {
+  info: LoadedPatternInfo;
+  onJumpToStep: (step: number) => void;
+}
+
+// Long files can produce hundreds of diagnostics; render them a page at a time
+const DIAGNOSTICS_PAGE_SIZE = 50;
+
+export const PatternDiagnosticsPanel = ({ info, onJumpToStep }: PatternDiagnosticsPanelProps) => {
+  const [filter, setFilter] = useState<DiagnosticSeverity | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(DIAGNOSTICS_PAGE_SIZE);
+
+  const errorCount = info.diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warningCount = info.diagnostics.length - errorCount;
+  const filtered = filter === 'all'
+    ? info.diagnostics
+    : info.diagnostics.filter(diagnostic => diagnostic.severity === filter);
+
+  const selectFilter = (next: DiagnosticSeverity | 'all') => {
+    setFilter(next);
+    setVisibleCount(DIAGNOSTICS_PAGE_SIZE);
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 md:col-span-2">
+      <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">
+            {info.fileName || "Loaded Pattern"}
+          </h3>
+          <div className="text-xs text-muted-foreground mt-1">
+            {info.format && <span title={info.formatReason}>{PATTERN_FORMAT_LABELS[info.format]} · </span>}
+            {info.componentsFound.length} components · {info.totalBeats} hits
+            {info.componentsFound.length > 0 && <span> · {info.componentsFound.join(', ')}</span>}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant={filter === 'all' ? "secondary" : "ghost"} onClick={() => selectFilter('all')}>
+            All {info.diagnostics.length}
+          </Button>
+          <Button size="sm" variant={filter === 'error' ? "secondary" : "ghost"} onClick={() => selectFilter('error')}>
+            <AlertCircle className="h-4 w-4 mr-1 text-destructive" />
+            {errorCount}
+          </Button>
+          <Button size="sm" variant={filter === 'warning' ? "secondary" : "ghost"} onClick={() => selectFilter('warning')}>
+            <AlertTriangle className="h-4 w-4 mr-1 text-yellow-500" />
+            {warningCount}
+          </Button>
+        </div>
+      </div>
+
+      {info.diagnostics.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <CheckCircle2 className="h-4 w-4 text-green-500" />
+          Parsed without problems
+        </div>
+      ) : (
+        <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+          {filtered.slice(0, visibleCount).map((diagnostic, index) => (
+            <div
+              key={`${diagnostic.line}-${diagnostic.column}-${index}`}
+              className={cn(
+                "flex items-start gap-2 rounded p-2 text-sm",
+                diagnostic.severity === 'error' ? "bg-destructive/10" : "bg-yellow-500/10"
+              )}
+            >
+              {diagnostic.severity === 'error' ? (
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-500" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className="font-mono text-xs">
+                    {diagnostic.line}{diagnostic.column ? `:${diagnostic.column}` : ''}
+                  </Badge>
+                  <span>{diagnostic.message}</span>
+                </div>
+                {diagnostic.text && (
+                  <code className="block mt-1 text-xs text-muted-foreground truncate">{diagnostic.text}</code>
+                )}
+                {diagnostic.suggestion && (
+                  <div className="mt-1 text-xs text-muted-foreground">{diagnostic.suggestion}</div>
+                )}
+              </div>
+              {diagnostic.step !== undefined && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="shrink-0"
+                  onClick={() => onJumpToStep(diagnostic.step!)}
+                >
+                  <CornerDownRight className="h-4 w-4 mr-1" />
+                  Step {diagnostic.step + 1}
+                </Button>
+              )}
+            </div>
+          ))}
+          {filtered.length > visibleCount && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="w-full"
+              onClick={() => setVisibleCount(count => count + DIAGNOSTICS_PAGE_SIZE)}
+            >
+              Show more ({filtered.length - visibleCount} remaining)
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChevronLeft, ChevronRight, ListMusic, Merge, MoreHorizontal, Scissors } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DrumPattern } from "@/lib/drumPattern";
+import { getPatternMeter, getStepsPerBar } from "@/lib/meter";
+import { SectionRange } from "@/lib/loopRegion";
+import { UNTITLED_SECTION, getHitDensity, getSongSections } from "@/lib/songStructure";
+
+interface SongTimelineProps {
+  pattern: DrumPattern;
+  currentStep: number;
+  onSeek: (step: number) => void;
+  onRenameSection: (index: number, name: string) => void;
+  onSplitSection: (index: number, atStep: number) => void;
+  onMergeSection: (index: number) => void; // Merges with the section after it
+  onMoveSection: (index: number, direction: -1 | 1) => void;
+}
+
+export const SongTimeline = ({
+  pattern,
+  currentStep,
+  onSeek,
+  onRenameSection,
+  onSplitSection,
+  onMergeSection,
+  onMoveSection
+}: SongTimelineProps) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const sections = getSongSections(pattern);
+  const stepsPerBar = getStepsPerBar(getPatternMeter(pattern));
+  const density = getHitDensity(pattern, stepsPerBar);
+  const toBar = (step: number) => Math.floor(step / stepsPerBar) + 1;
+
+  // Split at the playhead's bar when it is inside the section, otherwise halfway through
+  const getSplitStep = (section: SectionRange) => {
+    const playheadBarStart = Math.floor(currentStep / stepsPerBar) * stepsPerBar;
+    if (playheadBarStart > section.start && playheadBarStart < section.end) return playheadBarStart;
+    const bars = Math.ceil((section.end - section.start) / stepsPerBar);
+    return bars > 1 ? section.start + Math.floor(bars / 2) * stepsPerBar : section.start + Math.floor((section.end - section.start) / 2);
+  };
+
+  // Seek to the start of the bar under the pointer
+  const seekWithin = (event: React.MouseEvent<HTMLElement>, start: number, end: number) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const step = start + Math.floor(((event.clientX - rect.left) / rect.width) * (end - start));
+    onSeek(Math.max(start, Math.floor(step / stepsPerBar) * stepsPerBar));
+  };
+
+  const openEditor = (index: number) => {
+    setDraftName(sections[index].name);
+    setEditingIndex(index);
+  };
+
+  const saveName = () => {
+    if (editingIndex === null || !draftName.trim()) return;
+    onRenameSection(editingIndex, draftName);
+    setEditingIndex(null);
+  };
+
+  const runAndClose = (action: () => void) => {
+    action();
+    setEditingIndex(null);
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 mb-4 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ListMusic className="h-4 w-4 text-accent" />
+        Song
+        <span className="text-xs text-muted-foreground font-normal">
+          {sections.length} sections · {toBar(pattern.length - 1)} bars
+        </span>
+      </div>
+
+      <div className="relative">
+        <div className="flex gap-1">
+          {sections.map((section, index) => {
+            const isCurrent = currentStep >= section.start && currentStep < section.end;
+            const splitStep = getSplitStep(section);
+
+            return (
+              <div
+                key={`${section.start}-${section.name}`}
+                style={{ flexGrow: section.end - section.start, flexBasis: 0 }}
+                className={cn(
+                  "group relative min-w-0 rounded-md border text-left transition-colors",
+                  isCurrent ? "bg-primary/20 border-primary" : "bg-primary/5 border-primary/30 hover:bg-primary/10"
+                )}
+              >
+                <button
+                  className="w-full px-2 py-1 text-left"
+                  title={`Bars ${toBar(section.start)}-${toBar(section.end - 1)}, click to play from here`}
+                  onClick={event => seekWithin(event, section.start, section.end)}
+                >
+                  <div className={cn("text-xs font-medium truncate", section.name ? "text-primary" : "text-muted-foreground italic")}>
+                    {section.name || UNTITLED_SECTION}
+                  </div>
+                  <div className="text-[10px] font-mono text-muted-foreground truncate">
+                    Bars {toBar(section.start)}-{toBar(section.end - 1)}
+                  </div>
+                </button>
+
+                <Popover open={editingIndex === index} onOpenChange={open => (open ? openEditor(index) : setEditingIndex(null))}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Edit section"
+                      className="absolute top-0.5 right-0.5 h-5 w-5 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                    >
+                      <MoreHorizontal className="h-3 w-3" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-60 space-y-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="section-name">Section name</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="section-name"
+                          value={draftName}
+                          placeholder={UNTITLED_SECTION}
+                          onChange={event => setDraftName(event.target.value)}
+                          onKeyDown={event => event.key === 'Enter' && saveName()}
+                          className="h-8"
+                        />
+                        <Button size="sm" onClick={saveName} disabled={!draftName.trim()}>Rename</Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={section.end - section.start < 2}
+                        onClick={() => runAndClose(() => onSplitSection(index, splitStep))}
+                      >
+                        <Scissors className="h-4 w-4 mr-1" />
+                        Split at bar {toBar(splitStep)}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={index === sections.length - 1}
+                        onClick={() => runAndClose(() => onMergeSection(index))}
+                      >
+                        <Merge className="h-4 w-4 mr-1" />
+                        Merge next
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === 0}
+                        onClick={() => runAndClose(() => onMoveSection(index, -1))}
+                      >
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Move earlier
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === sections.length - 1}
+                        onClick={() => runAndClose(() => onMoveSection(index, 1))}
+                      >
+                        Move later
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </Button>
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Hit density per bar */}
+        <button
+          className="mt-1 flex h-6 w-full items-end gap-px rounded-sm bg-muted/30"
+          title="Hit density, click to play from a bar"
+          onClick={event => seekWithin(event, 0, pattern.length)}
+        >
+          {density.map((level, bar) => (
+            <div
+              key={bar}
+              className={cn("flex-1 rounded-t-sm", toBar(currentStep) === bar + 1 ? "bg-playhead" : "bg-accent/50")}
+              style={{ height: `${Math.max(4, level * 100)}%` }}
+            />
+          ))}
+        </button>
+
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 bg-playhead"
+          style={{ left: `${(currentStep / Math.max(1, pattern.length)) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -4,9 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Upload, Play, Trash2, Mic, Square } from 'lucide-react';
+import { Upload, Play, Trash2, Mic, Square, Brain } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useCustomSamples, DrumSample } from '@/hooks/useCustomSamples';
+import { useDrumClassifier } from '@/hooks/useDrumClassifier';
+import { DRUM_CLASSES, getMissingDrumClasses } from '@/lib/drumClassifier';
 
 export const SystemLearning = () => {
   const [selectedDrumType, setSelectedDrumType] = useState<string>('');
@@ -21,6 +23,7 @@ export const SystemLearning = () => {
   
   const { toast } = useToast();
   const { samples, saveSample, deleteSample, playCustomSample } = useCustomSamples();
+  const classifier = useDrumClassifier();
 
   const drumTypes = [
     { value: 'kick', label: 'Kick Drum' },
@@ -171,6 +174,41 @@ export const SystemLearning = () => {
     }
   };
 
+  const trainClassifier = async () => {
+    const result = await classifier.train(samples);
+    if (result) {
+      toast({
+        title: "Training Complete",
+        description: `The drum listener now uses your samples (${Math.round(result.accuracy * 100)}% accuracy).`,
+      });
+    } else {
+      toast({
+        title: "Training Failed",
+        description: "Could not train on your samples.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteClassifier = async () => {
+    try {
+      await classifier.deleteModel();
+      toast({
+        title: "Model Deleted",
+        description: "The drum listener is back to its built-in model.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Could not delete the trained model.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const trainableCount = samples.filter(sample => (DRUM_CLASSES as string[]).includes(sample.type)).length;
+  const missingDrums = getMissingDrumClasses(samples.map(sample => sample.type));
+
   const handleDeleteSample = (sampleId: string) => {
     try {
       deleteSample(sampleId);
@@ -324,6 +362,100 @@ export const SystemLearning = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Listener Training */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Train the Drum Listener</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Teach the listener how your kit sounds. Every hit in your kick, snare, hi-hat and open hi-hat samples becomes a training example;
+            record several of each for the best results.
+          </p>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Button
+              onClick={trainClassifier}
+              className="flex-1"
+              disabled={classifier.isTraining || missingDrums.length > 0}
+            >
+              <Brain className="h-4 w-4 mr-2" />
+              {classifier.isTraining ? 'Training...' : `Train on ${trainableCount} samples`}
+            </Button>
+            {classifier.trainedInfo && (
+              <Button onClick={deleteClassifier} variant="outline" disabled={classifier.isTraining}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Trained Model
+              </Button>
+            )}
+          </div>
+
+          {missingDrums.length > 0 && (
+            <div className="text-sm text-muted-foreground">
+              Add at least one sample of every drum to train; still missing:{' '}
+              <span className="capitalize">{missingDrums.map(type => type.replace('hihat', 'hi-hat')).join(', ')}</span>
+            </div>
+          )}
+
+          {classifier.progress && (
+            <div className="text-sm text-muted-foreground">
+              {classifier.progress.stage === 'extracting'
+                ? `Analysing sample ${classifier.progress.done + 1} of ${classifier.progress.total}...`
+                : `Training, epoch ${classifier.progress.done} of ${classifier.progress.total}...`}
+            </div>
+          )}
+
+          {classifier.error && (
+            <div className="text-sm text-destructive">{classifier.error}</div>
+          )}
+
+          {classifier.trainedInfo && !classifier.isTraining && (
+            <div className="text-sm text-muted-foreground">
+              Trained on {classifier.trainedInfo.exampleCount} hits, {classifier.trainedInfo.trainedAt.toLocaleString()}
+              {' '}({Math.round(classifier.trainedInfo.accuracy * 100)}% accuracy)
+            </div>
+          )}
+
+          {classifier.result && (
+            <div className="space-y-2">
+              <div className="text-sm">
+                <span className="font-medium">{Math.round(classifier.result.accuracy * 100)}% accuracy</span>
+                <span className="text-muted-foreground">
+                  {classifier.result.evaluatedOn === 'validation'
+                    ? ' on hits held back from training'
+                    : ' on the training hits; record at least 5 hits of every drum to test on unseen ones'}
+                </span>
+              </div>
+              <table className="text-sm">
+                <thead>
+                  <tr>
+                    <th className="p-2 text-left text-muted-foreground font-normal">Played ↓ Heard →</th>
+                    {DRUM_CLASSES.map(type => (
+                      <th key={type} className="p-2 font-medium capitalize">{type.replace('hihat', 'hi-hat')}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {classifier.result.confusion.map((row, actual) => (
+                    <tr key={DRUM_CLASSES[actual]}>
+                      <th className="p-2 text-left font-medium capitalize">{DRUM_CLASSES[actual].replace('hihat', 'hi-hat')}</th>
+                      {row.map((count, predicted) => (
+                        <td
+                          key={predicted}
+                          className={`p-2 text-center font-mono ${actual === predicted ? 'text-primary font-bold' : count > 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+                        >
+                          {count}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Gauge, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DrumPattern, TempoEvent } from "@/lib/drumPattern";
+import { MAX_TEMPO, MIN_TEMPO, clampTempo, getTempoAtStep } from "@/lib/tempoMap";
+
+interface TempoLaneProps {
+  pattern: DrumPattern;
+  bpm: number;
+  currentStep: number;
+  currentView?: number;
+  stepsPerView?: number;
+  onSetTempo: (event: TempoEvent) => void;
+  onRemoveTempo: (step: number) => void;
+}
+
+export const TempoLane = ({
+  pattern,
+  bpm,
+  currentStep,
+  currentView = 0,
+  stepsPerView = 16,
+  onSetTempo,
+  onRemoveTempo
+}: TempoLaneProps) => {
+  const [editingStep, setEditingStep] = useState<number | null>(null);
+  const [draftBpm, setDraftBpm] = useState('');
+  const [draftRamp, setDraftRamp] = useState(false);
+
+  const tempoMap = pattern.metadata.tempoMap;
+  const startStep = currentView * stepsPerView;
+  const endStep = Math.min(startStep + stepsPerView, pattern.length);
+  const visibleSteps = endStep - startStep;
+
+  // Bar heights are scaled between the slowest and fastest tempo in the whole song
+  const tempos = [bpm, ...(tempoMap || []).map(event => event.bpm)];
+  const lowest = Math.min(...tempos) - 10;
+  const highest = Math.max(...tempos) + 10;
+
+  const openEditor = (step: number) => {
+    const event = tempoMap?.find(existing => existing.step === step);
+    setDraftBpm(String(Math.round(getTempoAtStep(tempoMap, step, bpm))));
+    setDraftRamp(!!event?.ramp);
+    setEditingStep(step);
+  };
+
+  const saveDraft = () => {
+    const value = parseFloat(draftBpm);
+    if (editingStep === null || isNaN(value)) return;
+    onSetTempo({ step: editingStep, bpm: clampTempo(value), ...(draftRamp ? { ramp: true } : {}) });
+    setEditingStep(null);
+  };
+
+  return (
+    <div className="bg-card rounded-lg px-6 py-3 shadow-elevated">
+      <div className="flex items-end">
+        <div className="w-20 flex items-center gap-2 pr-4 self-center">
+          <Gauge className="h-4 w-4 text-accent" />
+          <span className="text-sm font-medium text-foreground">Tempo</span>
+        </div>
+
+        {Array.from({ length: visibleSteps }, (_, i) => {
+          const stepIndex = startStep + i;
+          const tempo = getTempoAtStep(tempoMap, stepIndex, bpm);
+          const event = tempoMap?.find(existing => existing.step === stepIndex);
+
+          return (
+            <Popover
+              key={stepIndex}
+              open={editingStep === stepIndex}
+              onOpenChange={open => (open ? openEditor(stepIndex) : setEditingStep(null))}
+            >
+              <PopoverTrigger asChild>
+                <button
+                  title={`${Math.round(tempo)} BPM${event ? (event.ramp ? ' (ramp)' : ' (change)') : ''}`}
+                  className={cn(
+                    "relative flex-1 h-12 flex flex-col justify-end border-r border-grid-line last:border-r-0 hover:bg-muted/20",
+                    stepIndex === currentStep && "bg-playhead/10"
+                  )}
+                >
+                  {event && (
+                    <span className="absolute top-0 inset-x-0 text-center text-[10px] font-mono font-bold text-primary">
+                      {event.ramp ? '↗' : ''}{Math.round(event.bpm)}
+                    </span>
+                  )}
+                  <div
+                    className={cn("mx-px rounded-t-sm", event ? "bg-primary/60" : "bg-accent/30")}
+                    style={{ height: `${Math.max(8, ((tempo - lowest) / (highest - lowest)) * 70)}%` }}
+                  />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-56 space-y-3">
+                <div className="text-sm font-medium">Tempo at step {stepIndex + 1}</div>
+                <div className="space-y-1">
+                  <Label htmlFor="tempo-bpm">BPM</Label>
+                  <Input
+                    id="tempo-bpm"
+                    type="number"
+                    min={MIN_TEMPO}
+                    max={MAX_TEMPO}
+                    value={draftBpm}
+                    onChange={event => setDraftBpm(event.target.value)}
+                    onKeyDown={event => event.key === 'Enter' && saveDraft()}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="tempo-ramp">Ramp from previous change</Label>
+                  <Switch id="tempo-ramp" checked={draftRamp} onCheckedChange={setDraftRamp} />
+                </div>
+                <div className="flex justify-between gap-2">
+                  {event ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        onRemoveTempo(stepIndex);
+                        setEditingStep(null);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                  ) : <span />}
+                  <Button size="sm" onClick={saveDraft}>Set</Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { RotateCcw, TrendingUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  MAX_TRAINER_BPM,
+  MIN_TRAINER_BPM,
+  TempoTrainerProgress,
+  TempoTrainerSettings,
+  TempoTrainerUnit,
+  getTrainerStages
+} from "@/lib/tempoTrainer";
+
+interface TempoTrainerControlsProps {
+  trainer: TempoTrainerSettings;
+  progress: TempoTrainerProgress;
+  onChange: (trainer: TempoTrainerSettings) => void;
+  onRestart: () => void;
+  isListening: boolean; // Accuracy, and so stepping back, needs the drum listener
+}
+
+export const TempoTrainerControls = ({
+  trainer,
+  progress,
+  onChange,
+  onRestart,
+  isListening
+}: TempoTrainerControlsProps) => {
+  const update = (changes: Partial<TempoTrainerSettings>) => onChange({ ...trainer, ...changes });
+  const stages = getTrainerStages(trainer);
+
+  const numberInput = (id: string, label: string, key: 'startBpm' | 'targetBpm' | 'increment' | 'repeats', min: number, max?: number) => (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={trainer[key]}
+        onChange={e => update({ [key]: Number(e.target.value) })}
+        className="h-8"
+      />
+    </div>
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Tempo trainer"
+          className={cn("h-8 w-8", trainer.enabled && "text-primary")}
+        >
+          <TrendingUp className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="trainer-enabled">Tempo trainer</Label>
+          <Switch id="trainer-enabled" checked={trainer.enabled} onCheckedChange={enabled => update({ enabled })} />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {numberInput('trainer-start', 'Start', 'startBpm', MIN_TRAINER_BPM, MAX_TRAINER_BPM)}
+          {numberInput('trainer-target', 'Target', 'targetBpm', MIN_TRAINER_BPM, MAX_TRAINER_BPM)}
+          {numberInput('trainer-increment', 'Step', 'increment', 1, 50)}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 items-end">
+          {numberInput('trainer-repeats', 'Repeat each', 'repeats', 1)}
+          <Select value={trainer.unit} onValueChange={(value: TempoTrainerUnit) => update({ unit: value })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="passes">Clean passes</SelectItem>
+              <SelectItem value="bars">Bars</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="trainer-step-back">Step back on a poor pass</Label>
+            <Switch id="trainer-step-back" checked={trainer.stepBack} onCheckedChange={stepBack => update({ stepBack })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label>Accuracy needed</Label>
+            <span className="text-xs font-mono text-muted-foreground">{Math.round(trainer.minAccuracy * 100)}%</span>
+          </div>
+          <Slider
+            value={[trainer.minAccuracy * 100]}
+            min={50}
+            max={100}
+            step={5}
+            onValueChange={([value]) => update({ minAccuracy: value / 100 })}
+          />
+          {!isListening && (
+            <div className="text-xs text-muted-foreground">Turn on the drum listener to judge passes; until then every pass counts as clean</div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{stages.length} tempos, {stages[0]} → {stages[stages.length - 1]} BPM</span>
+          <Button variant="ghost" size="sm" onClick={onRestart} disabled={progress.stage === 0 && progress.repeats === 0}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Restart
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,31 @@
+import { useState } from 'react';
+import { OfflineRenderOptions, renderPatternOffline } from '@/lib/offlineRender';
+import { encodeWav } from '@/lib/wav';
+
+export const useAudioExport = () => {
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Render offline and encode as a WAV file ready to download
+  const renderPatternToWav = async (options: OfflineRenderOptions): Promise<Blob> => {
+    setIsRendering(true);
+    setError(null);
+
+    try {
+      const buffer = await renderPatternOffline(options);
+      return new Blob([encodeWav(buffer)], { type: 'audio/wav' });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to render audio';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return {
+    renderPatternToWav,
+    isRendering,
+    error
+  };
+};
@@ -0,0 +1,198 @@
+import { useCallback, useRef, useState } from 'react';
+import { BackingTrackRef } from '@/lib/drumPattern';
+import { BACKING_TRACK_GAIN } from '@/lib/backingTrack';
+import {
+  DEFAULT_TIME_STRETCH_QUALITY,
+  TimeStretchPlayer,
+  TimeStretchQuality,
+  canTimeStretch,
+  createTimeStretchPlayer,
+  loadTimeStretchWorklet
+} from '@/lib/timeStretch';
+
+// Bare names are bundled in public/samples; anything else is already a URL
+const getBackingTrackUrl = (file: string): string =>
+  /^(blob:|data:|https?:|\/)/.test(file)
+    ? file
+    : `${import.meta.env.BASE_URL || '/'}samples/${file}`;
+
+export const useBackingTrack = (audioContextRef: React.MutableRefObject<AudioContext | null>) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [timeStretchQuality, setTimeStretchQualityState] = useState<TimeStretchQuality>(DEFAULT_TIME_STRETCH_QUALITY);
+
+  // Decoded tracks by URL; decoding a whole song is too slow to repeat on every pattern change
+  const bufferCacheRef = useRef(new Map<string, Promise<AudioBuffer>>());
+  // Only the most recently requested track may replace the current one
+  const requestedUrlRef = useRef<string | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  // Off-tempo playback goes through the time-stretch worklet so the track keeps its pitch;
+  // without AudioWorklet it falls back to playbackRate, which changes pitch with speed
+  const isTimeStretchReadyRef = useRef(false);
+  const stretchPlayerRef = useRef<TimeStretchPlayer | null>(null);
+  const stretchGainRef = useRef<GainNode | null>(null);
+  const stretchDestinationRef = useRef<AudioNode | null>(null);
+  const isStretchingRef = useRef(false);
+  const qualityRef = useRef(timeStretchQuality);
+  qualityRef.current = timeStretchQuality;
+
+  const decodeBackingTrack = useCallback((url: string): Promise<AudioBuffer> => {
+    const cached = bufferCacheRef.current.get(url);
+    if (cached) return cached;
+
+    const context = audioContextRef.current;
+    if (!context) return Promise.reject(new Error('Audio context not available'));
+
+    const loading = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch backing track (${response.status})`);
+        return response.arrayBuffer();
+      })
+      .then(arrayBuffer => context.decodeAudioData(arrayBuffer));
+
+    loading.catch(() => bufferCacheRef.current.delete(url));
+    bufferCacheRef.current.set(url, loading);
+    return loading;
+  }, [audioContextRef]);
+
+  // Decode a track's file, given as BackingTrackRef.file, and make it the one that plays
+  const loadBackingTrack = useCallback(async (file: string): Promise<AudioBuffer> => {
+    const url = getBackingTrackUrl(file);
+    requestedUrlRef.current = url;
+    setIsLoading(true);
+    setError(null);
+
+    const context = audioContextRef.current;
+    if (context && !isTimeStretchReadyRef.current) {
+      loadTimeStretchWorklet(context)
+        .then(() => { isTimeStretchReadyRef.current = true; })
+        .catch(err => console.warn('Time-stretch unavailable, the backing track will change pitch with the tempo:', err));
+    }
+
+    try {
+      const decoded = await decodeBackingTrack(url);
+      if (requestedUrlRef.current === url) setBuffer(decoded);
+      return decoded;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load backing track';
+      if (requestedUrlRef.current === url) {
+        setBuffer(null);
+        setError(errorMessage);
+      }
+      throw new Error(errorMessage);
+    } finally {
+      if (requestedUrlRef.current === url) setIsLoading(false);
+    }
+  }, [audioContextRef, decodeBackingTrack]);
+
+  // A local audio file becomes a track reference that lives as long as the page
+  const createBackingTrackFromFile = (file: File): BackingTrackRef => ({
+    file: URL.createObjectURL(file),
+    name: file.name,
+    offset: 0,
+  });
+
+  const stopBackingTrack = useCallback((time = 0) => {
+    if (isStretchingRef.current) {
+      stretchPlayerRef.current?.stop(time);
+      isStretchingRef.current = false;
+    }
+
+    const source = sourceRef.current;
+    if (!source) return;
+    try {
+      source.stop(time);
+    } catch {
+      // Never started
+    }
+    sourceRef.current = null;
+  }, []);
+
+  // One worklet node per decoded track, all through one output gain that is reconnected if the mixer channel it feeds is rebuilt
+  const getStretchPlayer = (context: AudioContext, destination: AudioNode): TimeStretchPlayer | null => {
+    if (!buffer || !isTimeStretchReadyRef.current || !canTimeStretch(context, buffer)) return null;
+
+    let gain = stretchGainRef.current;
+    if (!gain || gain.context !== context) {
+      gain?.disconnect();
+      gain = context.createGain();
+      gain.gain.setValueAtTime(BACKING_TRACK_GAIN, context.currentTime);
+      stretchGainRef.current = gain;
+      stretchDestinationRef.current = null;
+    }
+
+    let player = stretchPlayerRef.current;
+    if (!player || player.buffer !== buffer) {
+      player?.node.disconnect();
+      player = createTimeStretchPlayer(context, buffer, qualityRef.current);
+      player.node.connect(gain);
+      stretchPlayerRef.current = player;
+    }
+    if (stretchDestinationRef.current !== destination) {
+      gain.disconnect();
+      gain.connect(destination);
+      stretchDestinationRef.current = destination;
+    }
+    return player;
+  };
+
+  const setTimeStretchQuality = (quality: TimeStretchQuality) => {
+    setTimeStretchQualityState(quality);
+    stretchPlayerRef.current?.setQuality(quality);
+  };
+
+  // (Re)start the track so the given position sounds exactly at the given audio time.
+  // A looping track wraps to its start when it runs out, like a practice loop
+  const playBackingTrack = (
+    destination: AudioNode,
+    time: number,
+    position: number,
+    playbackRate: number,
+    loop: boolean
+  ) => {
+    const context = audioContextRef.current;
+    if (!context || !buffer) return;
+
+    stopBackingTrack(time);
+    if (loop && position > 0) position %= buffer.duration;
+    if (position >= buffer.duration) return;
+
+    // Audio before position 0 is silence: start late by however long the track is still ahead of step 0
+    const startTime = time + Math.max(0, -position) / playbackRate;
+
+    const player = playbackRate !== 1 ? getStretchPlayer(context, destination) : null;
+    if (player) {
+      player.start(startTime, Math.max(0, position), playbackRate, loop);
+      isStretchingRef.current = true;
+      return;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    source.playbackRate.setValueAtTime(playbackRate, time);
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(BACKING_TRACK_GAIN, time);
+    source.connect(gain);
+    gain.connect(destination);
+
+    source.start(startTime, Math.max(0, position));
+    sourceRef.current = source;
+  };
+
+  return {
+    buffer,
+    duration: buffer?.duration ?? 0,
+    loadBackingTrack,
+    createBackingTrackFromFile,
+    playBackingTrack,
+    stopBackingTrack,
+    timeStretchQuality,
+    setTimeStretchQuality,
+    isLoading,
+    error
+  };
+};
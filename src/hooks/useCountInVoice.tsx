@@ -0,0 +1,60 @@
+import { useCallback, useRef, useState } from 'react';
+import { MAX_SPOKEN_COUNT } from '@/lib/countIn';
+
+// One recording per beat number: public/samples/count-in/1.wav, 2.wav and so on
+const getCountSampleUrl = (count: number) =>
+  `${import.meta.env.BASE_URL || '/'}samples/count-in/${count}.wav`;
+
+export const useCountInVoice = (audioContextRef: React.MutableRefObject<AudioContext | null>) => {
+  const [samples, setSamples] = useState<(AudioBuffer | null)[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const loadingRef = useRef<Promise<void> | null>(null);
+
+  // Fetched the first time the voice is switched on. A missing number is just not spoken
+  const loadVoice = useCallback(() => {
+    const context = audioContextRef.current;
+    if (!context) return Promise.resolve();
+    if (loadingRef.current) return loadingRef.current;
+
+    setIsLoading(true);
+    setError(null);
+    const decodeCount = (count: number) => fetch(getCountSampleUrl(count))
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch count ${count} (${response.status})`);
+        return response.arrayBuffer();
+      })
+      .then(arrayBuffer => context.decodeAudioData(arrayBuffer))
+      .catch(() => null);
+
+    loadingRef.current = Promise.all(Array.from({ length: MAX_SPOKEN_COUNT }, (_, i) => decodeCount(i + 1)))
+      .then(decoded => {
+        setSamples(decoded);
+        if (decoded.every(sample => !sample)) {
+          setError('No count-in voice samples found in samples/count-in');
+          // Try again next time, the files may have been added since
+          loadingRef.current = null;
+        }
+      })
+      .finally(() => setIsLoading(false));
+    return loadingRef.current;
+  }, [audioContextRef]);
+
+  const playCount = useCallback((destination: AudioNode, time: number, count: number) => {
+    const context = audioContextRef.current;
+    const sample = samples[count - 1];
+    if (!context || !sample) return;
+
+    const source = context.createBufferSource();
+    source.buffer = sample;
+    source.connect(destination);
+    source.start(time);
+  }, [audioContextRef, samples]);
+
+  return {
+    loadVoice,
+    playCount,
+    isLoading,
+    error
+  };
+};
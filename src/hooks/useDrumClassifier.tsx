@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { DrumSample } from '@/hooks/useCustomSamples';
+import {
+  DRUM_CLASSES,
+  LabelledFeatures,
+  TrainedClassifierInfo,
+  TrainingResult,
+  deleteDrumClassifier,
+  extractSampleFeatures,
+  getMissingDrumClasses,
+  getTrainedClassifierInfo,
+  loadDrumClassifier,
+  saveDrumClassifier,
+  trainDrumClassifier
+} from '@/lib/drumClassifier';
+import { DetectedDrumType } from '@/lib/onsetDetection';
+
+export interface TrainingProgress {
+  stage: 'extracting' | 'training';
+  done: number;
+  total: number;
+}
+
+// Trains the listener's classifier on the user's samples and keeps it in IndexedDB, where useDrumListener finds it
+export const useDrumClassifier = () => {
+  const [trainedInfo, setTrainedInfo] = useState<TrainedClassifierInfo | null>(null);
+  const [progress, setProgress] = useState<TrainingProgress | null>(null);
+  const [result, setResult] = useState<Omit<TrainingResult, 'model'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDrumClassifier()
+      .then(model => {
+        if (!model) return;
+        setTrainedInfo(getTrainedClassifierInfo(model));
+        model.dispose();
+      })
+      .catch(err => console.error('Error loading trained drum classifier:', err));
+  }, []);
+
+  const train = useCallback(async (samples: DrumSample[]) => {
+    // Toms and crashes are recorded too, but the listener has no class for them
+    const trainable = samples.filter(sample => DRUM_CLASSES.includes(sample.type as DetectedDrumType));
+    setError(null);
+    setResult(null);
+
+    const missing = getMissingDrumClasses(trainable.map(sample => sample.type));
+    if (missing.length > 0) {
+      setError(`Record at least one sample of every drum first; missing: ${missing.join(', ')}`);
+      return null;
+    }
+
+    try {
+      await tf.ready();
+      const examples: LabelledFeatures[] = [];
+      for (let i = 0; i < trainable.length; i++) {
+        setProgress({ stage: 'extracting', done: i, total: trainable.length });
+        const features = await extractSampleFeatures(trainable[i].audioBlob).catch(err => {
+          console.error('Error analysing sample:', trainable[i].name, err);
+          return [];
+        });
+        features.forEach(onset => examples.push({ type: trainable[i].type as DetectedDrumType, features: onset }));
+      }
+
+      const { model, ...trainingResult } = await trainDrumClassifier(examples, (epoch, epochs) =>
+        setProgress({ stage: 'training', done: epoch, total: epochs })
+      );
+      await saveDrumClassifier(model);
+      setTrainedInfo(getTrainedClassifierInfo(model));
+      model.dispose();
+      setResult(trainingResult);
+      return trainingResult;
+    } catch (err) {
+      console.error('Error training drum classifier:', err);
+      setError(err instanceof Error ? err.message : 'Could not train the drum classifier');
+      return null;
+    } finally {
+      setProgress(null);
+    }
+  }, []);
+
+  const deleteModel = useCallback(async () => {
+    try {
+      await deleteDrumClassifier();
+      setTrainedInfo(null);
+      setResult(null);
+    } catch (err) {
+      console.error('Error deleting drum classifier:', err);
+      throw err;
+    }
+  }, []);
+
+  return {
+    trainedInfo,
+    isTraining: progress !== null,
+    progress,
+    result,
+    error,
+    train,
+    deleteModel
+  };
+};
@@ -0,0 +1,140 @@
+import { useCallback, useRef, useState } from 'react';
+import { DrumNote, InstrumentId } from '@/lib/drumPattern';
+import {
+  DrumKit,
+  KitSummary,
+  ResolvedKitNote,
+  getKitSampleUrl,
+  getKitSampleUrls,
+  parseKitManifest,
+  pickKitSample
+} from '@/lib/drumKit';
+
+const getKitUrl = (fileName: string): string =>
+  `${import.meta.env.BASE_URL || ''}kits/${fileName}`;
+
+const DEFAULT_SAMPLE_BASE_URL = `${import.meta.env.BASE_URL || '/'}samples`;
+
+export const useDrumKit = (audioContextRef: React.MutableRefObject<AudioContext | null>) => {
+  const [kits, setKits] = useState<KitSummary[]>([]);
+  const [kit, setKit] = useState<DrumKit | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Decoded samples by URL, shared between kits so switching back and forth never refetches
+  const bufferCacheRef = useRef(new Map<string, Promise<AudioBuffer>>());
+  const buffersRef = useRef(new Map<string, AudioBuffer>());
+  const roundRobinRef = useRef(new Map<InstrumentId, number>());
+  // Read by loadKit through a ref so the loader stays stable across renders
+  const kitsRef = useRef<KitSummary[]>([]);
+
+  const loadSampleBuffer = useCallback((url: string): Promise<AudioBuffer> => {
+    const cached = bufferCacheRef.current.get(url);
+    if (cached) return cached;
+
+    const context = audioContextRef.current;
+    if (!context) return Promise.reject(new Error('Audio context not available'));
+
+    const loading = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch ${url} (${response.status})`);
+        return response.arrayBuffer();
+      })
+      .then(arrayBuffer => context.decodeAudioData(arrayBuffer))
+      .then(buffer => {
+        buffersRef.current.set(url, buffer);
+        return buffer;
+      });
+
+    // A failed load may be retried the next time a kit asks for it
+    loading.catch(() => bufferCacheRef.current.delete(url));
+    bufferCacheRef.current.set(url, loading);
+    return loading;
+  }, [audioContextRef]);
+
+  const loadKitCatalogue = useCallback(async (): Promise<KitSummary[]> => {
+    const response = await fetch(getKitUrl('index.json'));
+    if (!response.ok) {
+      throw new Error(`Failed to fetch kit index (${response.status})`);
+    }
+    const index: { kits: KitSummary[] } = await response.json();
+    kitsRef.current = index.kits;
+    setKits(index.kits);
+    return index.kits;
+  }, []);
+
+  // Fetch a kit's manifest and decode its samples; samples that fail are logged and fall back to silence
+  const loadKit = useCallback(async (id: string): Promise<DrumKit> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const summary = kitsRef.current.find(entry => entry.id === id);
+      if (!summary) {
+        throw new Error(`Unknown kit "${id}"`);
+      }
+
+      const response = await fetch(getKitUrl(summary.file));
+      if (!response.ok) {
+        throw new Error(`Failed to fetch kit ${summary.file} (${response.status})`);
+      }
+      const nextKit = parseKitManifest(await response.json(), DEFAULT_SAMPLE_BASE_URL);
+
+      const results = await Promise.allSettled(getKitSampleUrls(nextKit).map(loadSampleBuffer));
+      results.forEach(result => {
+        if (result.status === 'rejected') {
+          console.error(`Failed to load a sample of kit ${nextKit.id}:`, result.reason);
+        }
+      });
+
+      setKit(nextKit);
+      return nextKit;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load drum kit';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadSampleBuffer]);
+
+  // Pick the velocity layer for a note, advancing the given round-robin cursor;
+  // null when the kit has no such instrument or its sample is not decoded
+  const resolveWithCursor = (
+    cursor: Map<InstrumentId, number>,
+    instrumentId: InstrumentId,
+    note: DrumNote
+  ): ResolvedKitNote | null => {
+    const instrument = kit?.instruments[instrumentId];
+    if (!kit || !instrument) return null;
+
+    const roundRobin = cursor.get(instrumentId) || 0;
+    cursor.set(instrumentId, roundRobin + 1);
+
+    const sample = pickKitSample(instrument, note, roundRobin);
+    const buffer = buffersRef.current.get(getKitSampleUrl(kit, sample));
+    return buffer ? { buffer, instrument, sample } : null;
+  };
+
+  // Live playback cycles through round-robin layers across everything it plays
+  const resolveKitNote = (instrumentId: InstrumentId, note: DrumNote): ResolvedKitNote | null =>
+    resolveWithCursor(roundRobinRef.current, instrumentId, note);
+
+  // A resolver with its own cursor, starting at the first layer; offline renders use one each,
+  // so they repeat exactly and never move live playback's cursor
+  const createKitNoteResolver = () => {
+    const cursor = new Map<InstrumentId, number>();
+    return (instrumentId: InstrumentId, note: DrumNote) => resolveWithCursor(cursor, instrumentId, note);
+  };
+
+  return {
+    kits,
+    kit,
+    loadKitCatalogue,
+    loadKit,
+    resolveKitNote,
+    createKitNoteResolver,
+    isLoading,
+    error
+  };
+};
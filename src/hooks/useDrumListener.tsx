@@ -1,55 +1,74 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import * as tf from '@tensorflow/tfjs';
-import Meyda from 'meyda';
+import {
+  DEFAULT_MIN_INTER_ONSET_MS,
+  DetectedDrumType,
+  DrumListenerMessage,
+  OnsetFeatures,
+  createDrumListenerNode,
+  loadDrumListenerWorklet
+} from '@/lib/onsetDetection';
+import {
+  DrumClassifier,
+  HEURISTIC_CLASSIFIER,
+  ListenerOnset,
+  createTrainedClassifier,
+  loadDrumClassifier
+} from '@/lib/drumClassifier';
+import { loadLocalClassifier } from '@/lib/localModels';
 
 interface DrumDetection {
-  timestamp: number;
+  timestamp: number; // Wall-clock milliseconds of the onset
+  time: number; // The same onset on the listener's AudioContext clock, in seconds
   confidence: number;
-  type: 'kick' | 'snare' | 'hihat' | 'openhat';
-  features?: any;
+  type: DetectedDrumType;
+  features?: Pick<OnsetFeatures, 'spectralCentroid' | 'zcr' | 'energy' | 'rms'>;
 }
 
-export const useDrumListener = () => {
+interface DrumListenerOptions {
+  // Hits of the same drum closer together than this are treated as one
+  minInterOnsetMs?: Partial<Record<DetectedDrumType, number>>;
+  // Every hit as it is heard; detectedBeats only keeps the last few for display
+  onDetection?: (detection: DrumDetection) => void;
+}
+
+export const useDrumListener = ({ minInterOnsetMs, onDetection }: DrumListenerOptions = {}) => {
   const [isListening, setIsListening] = useState(false);
   const [detectedBeats, setDetectedBeats] = useState<DrumDetection[]>([]);
   const [audioLevel, setAudioLevel] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [isModelLoaded, setIsModelLoaded] = useState(false);
+  const [modelName, setModelName] = useState<string | null>(null);
 
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const modelRef = useRef<tf.LayersModel | null>(null);
-  const lastBeatTimeRef = useRef<number>(0);
-
-  // Initialize TensorFlow.js and load/create a simple drum classification model
+  const listenerNodeRef = useRef<AudioWorkletNode | null>(null);
+  const classifierRef = useRef<DrumClassifier | null>(null);
+  const lastOnsetByTypeRef = useRef<Partial<Record<DetectedDrumType, number>>>({});
+  const minInterOnsetMsRef = useRef({ ...DEFAULT_MIN_INTER_ONSET_MS, ...minInterOnsetMs });
+  minInterOnsetMsRef.current = { ...DEFAULT_MIN_INTER_ONSET_MS, ...minInterOnsetMs };
+  const onDetectionRef = useRef(onDetection);
+  onDetectionRef.current = onDetection;
+
+  // Initialize TensorFlow.js and pick a classifier: the one trained on the user's samples, then a pre-trained
+  // model from public/models, then the built-in rules
   const initializeModel = useCallback(async () => {
     try {
       // Initialize TensorFlow.js backend
       await tf.ready();
-      
-      // Create a simple neural network for drum classification
-      // This is a basic model - you would typically train this with real drum samples
-      const model = tf.sequential({
-        layers: [
-          tf.layers.dense({ inputShape: [13], units: 64, activation: 'relu' }),
-          tf.layers.dropout({ rate: 0.3 }),
-          tf.layers.dense({ units: 32, activation: 'relu' }),
-          tf.layers.dropout({ rate: 0.3 }),
-          tf.layers.dense({ units: 4, activation: 'softmax' }) // 4 drum types
-        ]
-      });
 
-      model.compile({
-        optimizer: 'adam',
-        loss: 'categoricalCrossentropy',
-        metrics: ['accuracy']
+      const trained = await loadDrumClassifier().catch(err => {
+        console.error('Error loading trained drum classifier:', err);
+        return null;
       });
+      const classifier = trained
+        ? createTrainedClassifier(trained)
+        : (await loadLocalClassifier()) ?? HEURISTIC_CLASSIFIER;
 
-      modelRef.current = model;
+      classifierRef.current?.dispose();
+      classifierRef.current = classifier;
+      setModelName(classifier.name);
       setIsModelLoaded(true);
-      console.log('Drum classification model initialized');
     } catch (err) {
       console.error('Error initializing model:', err);
       setError('Failed to initialize drum recognition model');
@@ -61,6 +80,54 @@ export const useDrumListener = () => {
     initializeModel();
   }, [initializeModel]);
 
+  const analyzeDrumFeatures = useCallback(async (onset: ListenerOnset, onsetTime: number, audioContext: AudioContext) => {
+    const classifier = classifierRef.current;
+    if (!classifier || !onset.features.mfcc) return;
+
+    try {
+      const classification = await classifier.classify(onset);
+      if (classification) {
+        const { features } = onset;
+        const finalType = classification.type;
+
+        // The tail of the previous hit on the same drum, not a new one
+        const lastOnset = lastOnsetByTypeRef.current[finalType];
+        const isRetrigger = lastOnset !== undefined && (onsetTime - lastOnset) * 1000 < minInterOnsetMsRef.current[finalType];
+
+        const detection: DrumDetection = {
+          timestamp: Date.now() - (audioContext.currentTime - onsetTime) * 1000,
+          time: onsetTime,
+          confidence: classification.confidence,
+          type: finalType,
+          features: {
+            spectralCentroid: features.spectralCentroid,
+            zcr: features.zcr,
+            energy: features.energy,
+            rms: features.rms
+          }
+        };
+
+        if (!isRetrigger) {
+          console.log('Drum detected:', detection);
+          setDetectedBeats(prev => [...prev.slice(-19), detection]);
+          onDetectionRef.current?.(detection);
+          lastOnsetByTypeRef.current[finalType] = onsetTime;
+        }
+      }
+    } catch (err) {
+      console.error('Error in drum analysis:', err);
+    }
+  }, []);
+
+  const handleListenerMessage = useCallback((message: DrumListenerMessage, audioContext: AudioContext) => {
+    if (message.type === 'level') {
+      setAudioLevel(Math.min(message.rms * 20, 1));
+    } else if (message.type === 'onset') {
+      const onset = { features: message.features, samples: message.samples, sampleRate: audioContext.sampleRate };
+      analyzeDrumFeatures(onset, message.time, audioContext);
+    }
+  }, [analyzeDrumFeatures]);
+
   const startListening = useCallback(async () => {
     try {
       setError(null);
@@ -70,6 +137,22 @@ export const useDrumListener = () => {
         return;
       }
 
+      // Pick up a model trained since the last time
+      await initializeModel();
+
+      // Create audio context; onset detection and feature extraction run in its audio thread,
+      // and only their results come back here
+      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      try {
+        await loadDrumListenerWorklet(audioContext);
+      } catch (err) {
+        console.error('Error loading drum listener worklet:', err);
+        audioContext.close();
+        setError('Drum detection is not supported in this browser');
+        return;
+      }
+      audioContextRef.current = audioContext;
+
       // Get microphone access
       const stream = await navigator.mediaDevices.getUserMedia({ 
         audio: {
@@ -82,139 +165,36 @@ export const useDrumListener = () => {
       
       mediaStreamRef.current = stream;
 
-      // Create audio context and analyser
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      audioContextRef.current = audioContext;
-
       const source = audioContext.createMediaStreamSource(stream);
-      const analyser = audioContext.createAnalyser();
-      
-      // Configure analyser for feature extraction
-      analyser.fftSize = 2048;
-      analyser.smoothingTimeConstant = 0.3;
-      
-      source.connect(analyser);
-      analyserRef.current = analyser;
-
-      // Create script processor for Meyda feature extraction
-      const scriptProcessor = audioContext.createScriptProcessor(2048, 1, 1);
-      scriptProcessorRef.current = scriptProcessor;
-      
-      source.connect(scriptProcessor);
-      scriptProcessor.connect(audioContext.destination);
-
-      // Initialize Meyda
-      Meyda.bufferSize = 2048;
-      Meyda.sampleRate = audioContext.sampleRate;
-
-      // Set up audio processing
-      scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-        const inputBuffer = audioProcessingEvent.inputBuffer;
-        const inputData = inputBuffer.getChannelData(0);
-        
-        // Calculate audio level for visualization
-        let sum = 0;
-        for (let i = 0; i < inputData.length; i++) {
-          sum += inputData[i] * inputData[i];
-        }
-        const rms = Math.sqrt(sum / inputData.length);
-        setAudioLevel(Math.min(rms * 20, 1));
-
-        // Extract features using Meyda
-        const features = Meyda.extract([
-          'mfcc',
-          'spectralCentroid',
-          'spectralRolloff',
-          'zcr',
-          'energy',
-          'rms'
-        ], inputData);
 
-        if (features && features.mfcc && features.energy > 0.005) { // Increased energy threshold
-          analyzeDrumFeatures(features);
-        }
-      };
+      lastOnsetByTypeRef.current = {};
+      // Classifiers that listen to the audio itself get it sent along with each onset
+      const captureSeconds = classifierRef.current?.captureSeconds ?? 0;
+      const listenerNode = createDrumListenerNode(
+        audioContext,
+        message => handleListenerMessage(message, audioContext),
+        { onsetSamples: Math.round(captureSeconds * audioContext.sampleRate) }
+      );
+      listenerNodeRef.current = listenerNode;
+      source.connect(listenerNode);
 
       setIsListening(true);
       
     } catch (err) {
       console.error('Error accessing microphone:', err);
+      mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+      mediaStreamRef.current = null;
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
       setError('Could not access microphone. Please check permissions.');
     }
-  }, [isModelLoaded]);
-
-  const analyzeDrumFeatures = useCallback((features: any) => {
-    if (!modelRef.current || !features.mfcc) return;
-
-    const currentTime = Date.now();
-    const timeSinceLastBeat = currentTime - lastBeatTimeRef.current;
-    
-    // Minimum time between detections to avoid duplicates
-    if (timeSinceLastBeat < 100) return;
-
-    try {
-      // Prepare features for the model (using first 13 MFCC coefficients)
-      const mfccFeatures = features.mfcc.slice(0, 13);
-      const inputTensor = tf.tensor2d([mfccFeatures]);
-
-      // Get prediction from model
-      const prediction = modelRef.current.predict(inputTensor) as tf.Tensor;
-      const predictionData = prediction.dataSync();
-      
-      // Find the class with highest probability
-      const maxIndex = predictionData.indexOf(Math.max(...predictionData));
-      const confidence = predictionData[maxIndex];
-      
-      // Only trigger if confidence is above higher threshold for less sensitivity
-      if (confidence > 0.8) {
-        const drumTypes = ['kick', 'snare', 'hihat', 'openhat'];
-        const detectedType = drumTypes[maxIndex] as 'kick' | 'snare' | 'hihat' | 'openhat';
-        
-        // Additional heuristics based on audio features
-        let finalType = detectedType;
-        let finalConfidence = confidence;
-
-        // Use spectral features to refine classification
-        if (features.spectralCentroid > 8000 && features.zcr > 0.1) {
-          finalType = 'hihat';
-          finalConfidence = Math.min(confidence + 0.1, 1);
-        } else if (features.spectralCentroid < 200 && features.energy > 0.01) {
-          finalType = 'kick';
-          finalConfidence = Math.min(confidence + 0.15, 1);
-        } else if (features.spectralCentroid > 2000 && features.spectralCentroid < 6000 && features.energy > 0.005) {
-          finalType = 'snare';
-          finalConfidence = Math.min(confidence + 0.1, 1);
-        }
-
-        const detection: DrumDetection = {
-          timestamp: currentTime,
-          confidence: finalConfidence,
-          type: finalType,
-          features: {
-            spectralCentroid: features.spectralCentroid,
-            zcr: features.zcr,
-            energy: features.energy,
-            rms: features.rms
-          }
-        };
-
-        console.log('Drum detected:', detection);
-        setDetectedBeats(prev => [...prev.slice(-19), detection]);
-        lastBeatTimeRef.current = currentTime;
-      }
-
-      // Clean up tensors
-      inputTensor.dispose();
-      prediction.dispose();
-    } catch (err) {
-      console.error('Error in drum analysis:', err);
-    }
-  }, []);
+  }, [isModelLoaded, initializeModel, handleListenerMessage]);
 
   const stopListening = useCallback(() => {
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
+    if (listenerNodeRef.current) {
+      listenerNodeRef.current.port.onmessage = null;
+      listenerNodeRef.current.disconnect();
+      listenerNodeRef.current = null;
     }
     
     if (mediaStreamRef.current) {
@@ -227,7 +207,6 @@ export const useDrumListener = () => {
       audioContextRef.current = null;
     }
     
-    analyserRef.current = null;
     setIsListening(false);
     setAudioLevel(0);
   }, []);
@@ -241,9 +220,8 @@ export const useDrumListener = () => {
     return () => {
       stopListening();
       // Clean up model
-      if (modelRef.current) {
-        modelRef.current.dispose();
-      }
+      classifierRef.current?.dispose();
+      classifierRef.current = null;
     };
   }, [stopListening]);
 
@@ -253,6 +231,7 @@ export const useDrumListener = () => {
     audioLevel,
     error,
     isModelLoaded,
+    modelName,
     startListening,
     stopListening,
     clearBeats
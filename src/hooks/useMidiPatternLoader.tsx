@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { DrumPattern, INSTRUMENT_IDS, Meter, clampVelocity, createEmptyPattern, createNote } from '@/lib/drumPattern';
+import { DEFAULT_METER, getStepsPerBar } from '@/lib/meter';
+import { normalizeTempoMap } from '@/lib/tempoMap';
+import { GM_DRUM_CHANNEL, GM_DRUM_MAP, MidiFile, getGMDrumName, parseMidiFile } from '@/lib/midi';
+
+export interface UnmappedMidiNote {
+  note: number;
+  name: string;
+  count: number;
+}
+
+export interface MidiImportResult {
+  pattern: DrumPattern;
+  unmappedNotes: UnmappedMidiNote[];
+}
+
+const STEPS_PER_QUARTER = 4; // 16th note grid
+
+// The file's first time signature, on the same 16th note grid whatever the beat unit
+const getMidiMeter = (midi: MidiFile): Meter => {
+  const [timeSignature] = midi.timeSignatures;
+  if (!timeSignature) return DEFAULT_METER;
+  const { numerator, denominator } = timeSignature;
+  return { numerator, denominator, stepsPerBeat: Math.max(1, (STEPS_PER_QUARTER * 4) / denominator) };
+};
+
+export const useMidiPatternLoader = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const convertMidiToPattern = (midi: MidiFile): MidiImportResult => {
+    const drumNotes = midi.notes.filter(event => event.channel === GM_DRUM_CHANNEL);
+    if (drumNotes.length === 0) {
+      throw new Error('No drum notes found on MIDI channel 10');
+    }
+
+    // Ticks are musical positions, so the grid comes straight from the PPQ;
+    // the tempo map only decides the tempo the pattern is played back at
+    const ticksPerStep = midi.ticksPerQuarter / STEPS_PER_QUARTER;
+    const toStep = (tick: number) => Math.round(tick / ticksPerStep);
+
+    const meter = getMidiMeter(midi);
+    const stepsPerBar = getStepsPerBar(meter);
+    const lastStep = toStep(drumNotes[drumNotes.length - 1].tick);
+    const patternLength = Math.max(stepsPerBar, Math.ceil((lastStep + 1) / stepsPerBar) * stepsPerBar);
+    const pattern = createEmptyPattern(patternLength, INSTRUMENT_IDS, { meter });
+    const unmapped = new Map<number, number>();
+
+    drumNotes.forEach(event => {
+      const instrument = GM_DRUM_MAP[event.note];
+      const track = instrument && pattern.tracks[instrument];
+      if (!track) {
+        unmapped.set(event.note, (unmapped.get(event.note) || 0) + 1);
+        return;
+      }
+
+      const step = toStep(event.tick);
+      if (step >= patternLength) return;
+
+      // Two source notes quantized onto one step (e.g. closed and pedal hat) keep the louder one
+      const velocity = clampVelocity(event.velocity / 127);
+      const existing = track[step];
+      track[step] = createNote({ velocity: existing.active ? Math.max(existing.velocity, velocity) : velocity });
+    });
+
+    pattern.metadata.tempo = midi.tempos.length > 0 ? Math.round(midi.tempos[0].bpm) : 120;
+
+    // Further tempo changes become the pattern's tempo map
+    if (midi.tempos.length > 1) {
+      pattern.metadata.tempoMap = normalizeTempoMap(
+        midi.tempos
+          .filter(tempo => toStep(tempo.tick) < patternLength)
+          .map(tempo => ({ step: toStep(tempo.tick), bpm: Math.round(tempo.bpm * 100) / 100 }))
+      );
+    }
+
+    // Marker meta events become section names for every step up to the next marker
+    if (midi.markers.length > 0) {
+      const sections = new Array(patternLength).fill('');
+      midi.markers.forEach((marker, index) => {
+        const from = Math.max(0, toStep(marker.tick));
+        const to = index + 1 < midi.markers.length ? toStep(midi.markers[index + 1].tick) : patternLength;
+        for (let step = from; step < Math.min(to, patternLength); step++) {
+          sections[step] = marker.text;
+        }
+      });
+      pattern.metadata.sections = sections;
+    }
+
+    const unmappedNotes = Array.from(unmapped.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([note, count]) => ({ note, name: getGMDrumName(note), count }));
+
+    return { pattern, unmappedNotes };
+  };
+
+  const loadPatternFromMidi = async (buffer: ArrayBuffer): Promise<MidiImportResult> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return convertMidiToPattern(parseMidiFile(buffer));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to parse MIDI file';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadPatternFromMidiFile = async (file: File): Promise<MidiImportResult> => {
+    const buffer = await file.arrayBuffer();
+    return loadPatternFromMidi(buffer);
+  };
+
+  return {
+    loadPatternFromMidi,
+    loadPatternFromMidiFile,
+    isLoading,
+    error
+  };
+};
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ChannelSettings,
+  MixerChannelId,
+  MixerGraph,
+  MixerSettings,
+  applyMixerSettings,
+  createDefaultMixer,
+  createMixerGraph
+} from '@/lib/mixer';
+
+export const useMixer = (audioContextRef: React.MutableRefObject<AudioContext | null>) => {
+  const [mixer, setMixer] = useState<MixerSettings>(createDefaultMixer);
+  const graphRef = useRef<MixerGraph | null>(null);
+  const mixerRef = useRef(mixer);
+  mixerRef.current = mixer;
+
+  // Build the bus graph once the audio context exists; call again after the context is recreated
+  const connectMixer = useCallback((): MixerGraph | null => {
+    const context = audioContextRef.current;
+    if (!context) return null;
+
+    const graph = createMixerGraph(context);
+    applyMixerSettings(graph, mixerRef.current, context.currentTime);
+    graphRef.current = graph;
+    return graph;
+  }, [audioContextRef]);
+
+  // Push every settings change into the running graph
+  useEffect(() => {
+    const context = audioContextRef.current;
+    if (graphRef.current && context) {
+      applyMixerSettings(graphRef.current, mixer, context.currentTime);
+    }
+  }, [mixer, audioContextRef]);
+
+  // Where a voice of the channel should connect; straight to the speakers until the graph exists
+  const getChannelInput = (id: MixerChannelId): AudioNode | null =>
+    graphRef.current?.channels[id].input || audioContextRef.current?.destination || null;
+
+  const updateChannel = (id: MixerChannelId, changes: Partial<ChannelSettings>) => {
+    setMixer(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const resetMixer = () => setMixer(createDefaultMixer());
+
+  return {
+    mixer,
+    connectMixer,
+    getChannelInput,
+    updateChannel,
+    resetMixer
+  };
+};
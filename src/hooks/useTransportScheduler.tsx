@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { LoopRegion, getNextStep } from '@/lib/loopRegion';
+import { CountIn, CountInBeat } from '@/lib/countIn';
+
+interface ScheduledStep {
+  step: number;
+  time: number;
+  count?: number; // Set on count-in beats leading into the step
+}
+
+interface TransportSchedulerOptions {
+  audioContextRef: React.MutableRefObject<AudioContext | null>;
+  totalSteps: number;
+  // Quarter notes per minute while a step plays; follows the pattern's tempo map
+  getTempo: (step: number) => number;
+  // Grid resolution against the quarter-note tempo: 4 for 16ths, 6 for 16th triplets, 2 for 8ths
+  stepsPerQuarter: number;
+  // Steps to cycle through instead of the whole pattern
+  loopRegion?: LoopRegion | null;
+  // Called ahead of time with the AudioContext time at which the step must sound, and how many times
+  // playback has wrapped around since it started
+  onScheduleStep: (step: number, time: number, pass: number) => void;
+  // Called from an animation frame once the audio clock has reached the step
+  onStepChange: (step: number) => void;
+  // Count-in to play before the step after a start, and before each pass of the loop region
+  getCountIn?: (step: number, time: number, isLoopPass: boolean) => CountIn | null;
+  // Called ahead of time, like onScheduleStep, for each count-in beat
+  onScheduleCountIn?: (beat: CountInBeat) => void;
+  // Called once the audio clock reaches a count-in beat, and with null when the steps take over again
+  onCountInChange?: (count: number | null) => void;
+}
+
+// How far ahead of the audio clock steps are queued, and how often the queue is topped up.
+// The lookahead must comfortably exceed the timer interval so a late timer tick never leaves a gap.
+const LOOKAHEAD_SECONDS = 0.1;
+const SCHEDULER_INTERVAL_MS = 25;
+// Small delay before the first step so its start time is never already in the past
+const START_DELAY_SECONDS = 0.05;
+
+export const useTransportScheduler = ({
+  audioContextRef,
+  totalSteps,
+  getTempo,
+  stepsPerQuarter,
+  loopRegion = null,
+  onScheduleStep,
+  onStepChange,
+  getCountIn,
+  onScheduleCountIn,
+  onCountInChange
+}: TransportSchedulerOptions) => {
+  const totalStepsRef = useRef(totalSteps);
+  const stepsPerQuarterRef = useRef(stepsPerQuarter);
+  const getTempoRef = useRef(getTempo);
+  const loopRegionRef = useRef(loopRegion);
+  const onScheduleStepRef = useRef(onScheduleStep);
+  const onStepChangeRef = useRef(onStepChange);
+  const getCountInRef = useRef(getCountIn);
+  const onScheduleCountInRef = useRef(onScheduleCountIn);
+  const onCountInChangeRef = useRef(onCountInChange);
+
+  const isRunningRef = useRef(false);
+  const nextStepRef = useRef(0);
+  const nextStepTimeRef = useRef(0);
+  const passRef = useRef(0);
+  const stepQueueRef = useRef<ScheduledStep[]>([]);
+  const pendingCountInRef = useRef<CountInBeat[]>([]);
+  const isCountingInRef = useRef(false);
+  const schedulerTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  // Keep the latest pattern and callbacks visible to the timer without restarting it
+  totalStepsRef.current = totalSteps;
+  stepsPerQuarterRef.current = stepsPerQuarter;
+  getTempoRef.current = getTempo;
+  loopRegionRef.current = loopRegion;
+  onScheduleStepRef.current = onScheduleStep;
+  onStepChangeRef.current = onStepChange;
+  getCountInRef.current = getCountIn;
+  onScheduleCountInRef.current = onScheduleCountIn;
+  onCountInChangeRef.current = onCountInChange;
+
+  // Already queued steps keep their times; every step after a tempo change uses the new tempo
+  const getStepDuration = (step: number) => 60 / getTempoRef.current(step) / stepsPerQuarterRef.current;
+
+  const endCountIn = () => {
+    if (!isCountingInRef.current) return;
+    isCountingInRef.current = false;
+    onCountInChangeRef.current?.(null);
+  };
+
+  // The steps wait for the count-in; its beats are queued through the same lookahead so stopping cancels them
+  const beginCountIn = (step: number, isLoopPass: boolean) => {
+    const countIn = getCountInRef.current?.(step, nextStepTimeRef.current, isLoopPass);
+    if (!countIn || countIn.beats.length === 0) return;
+    pendingCountInRef.current = countIn.beats;
+    nextStepTimeRef.current += countIn.duration;
+  };
+
+  const scheduleCountInAhead = (horizon: number) => {
+    const pending = pendingCountInRef.current;
+    while (pending.length > 0 && pending[0].time < horizon) {
+      const beat = pending.shift()!;
+      onScheduleCountInRef.current?.(beat);
+      stepQueueRef.current.push({ step: nextStepRef.current, time: beat.time, count: beat.count });
+    }
+  };
+
+  const scheduleAhead = useCallback(() => {
+    const context = audioContextRef.current;
+    if (!context || !isRunningRef.current) return;
+
+    const horizon = context.currentTime + LOOKAHEAD_SECONDS;
+    scheduleCountInAhead(horizon);
+    while (nextStepTimeRef.current < horizon) {
+      const length = Math.max(1, totalStepsRef.current);
+      const step = nextStepRef.current % length;
+      const time = nextStepTimeRef.current;
+
+      onScheduleStepRef.current(step, time, passRef.current);
+      stepQueueRef.current.push({ step, time });
+
+      nextStepTimeRef.current += getStepDuration(step);
+      nextStepRef.current = getNextStep(step, length, loopRegionRef.current);
+      if (nextStepRef.current <= step) passRef.current++;
+
+      const loop = loopRegionRef.current;
+      if (loop && step === loop.end - 1) {
+        beginCountIn(nextStepRef.current, true);
+        scheduleCountInAhead(horizon);
+      }
+    }
+  }, [audioContextRef]);
+
+  // Move the playhead only when the audio clock actually reaches a queued step
+  const drawPlayhead = useCallback(() => {
+    const context = audioContextRef.current;
+    if (context) {
+      const queue = stepQueueRef.current;
+      let reached: ScheduledStep | null = null;
+      while (queue.length > 0 && queue[0].time <= context.currentTime) {
+        reached = queue.shift()!;
+      }
+      if (reached?.count !== undefined) {
+        isCountingInRef.current = true;
+        onCountInChangeRef.current?.(reached.count);
+      } else if (reached) {
+        endCountIn();
+        onStepChangeRef.current(reached.step);
+      }
+    }
+    animationFrameRef.current = requestAnimationFrame(drawPlayhead);
+  }, [audioContextRef]);
+
+  const stop = useCallback(() => {
+    isRunningRef.current = false;
+    pendingCountInRef.current = [];
+    endCountIn();
+    if (schedulerTimerRef.current) {
+      clearInterval(schedulerTimerRef.current);
+      schedulerTimerRef.current = null;
+    }
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    stepQueueRef.current = [];
+  }, []);
+
+  const start = useCallback((fromStep = 0) => {
+    const context = audioContextRef.current;
+    if (!context) {
+      console.error('Audio context not available');
+      return;
+    }
+    if (isRunningRef.current) return;
+
+    isRunningRef.current = true;
+    nextStepRef.current = fromStep;
+    nextStepTimeRef.current = context.currentTime + START_DELAY_SECONDS;
+    passRef.current = 0;
+    stepQueueRef.current = [];
+    beginCountIn(fromStep, false);
+
+    scheduleAhead();
+    schedulerTimerRef.current = setInterval(scheduleAhead, SCHEDULER_INTERVAL_MS);
+    animationFrameRef.current = requestAnimationFrame(drawPlayhead);
+  }, [audioContextRef, scheduleAhead, drawPlayhead]);
+
+  // Seeking skips whatever is left of a count-in
+  const seek = useCallback((step: number) => {
+    nextStepRef.current = step;
+    stepQueueRef.current = [];
+    pendingCountInRef.current = [];
+    endCountIn();
+
+    const context = audioContextRef.current;
+    if (isRunningRef.current && context) {
+      nextStepTimeRef.current = context.currentTime + START_DELAY_SECONDS;
+    } else {
+      onStepChangeRef.current(step);
+    }
+  }, [audioContextRef]);
+
+  // Cleanup on unmount
+  useEffect(() => stop, [stop]);
+
+  return {
+    start,
+    stop,
+    seek
+  };
+};
@@ -0,0 +1,46 @@
+import { BackingTrackRef, DrumPattern } from '@/lib/drumPattern';
+import { getBaseTempo, getStepTimes } from '@/lib/tempoMap';
+
+// Played when a pattern does not bring its own track
+export const DEFAULT_BACKING_TRACK: BackingTrackRef = {
+  file: 'come_as_you_are_backing_track.mp3',
+  name: 'Come As You Are',
+  offset: 0,
+  bpm: 120,
+};
+
+// Level of the track under the drums, before its mixer channel
+export const BACKING_TRACK_GAIN = 0.3;
+
+export const getBackingTrack = (pattern: DrumPattern): BackingTrackRef =>
+  pattern.metadata.backingTrack || DEFAULT_BACKING_TRACK;
+
+export const getBackingTrackName = (track: BackingTrackRef): string =>
+  track.name || track.file.split('/').pop() || track.file;
+
+export const getBackingTrackTempo = (pattern: DrumPattern, track: BackingTrackRef): number =>
+  track.bpm || getBaseTempo(pattern);
+
+// Where the recording is at a step, and how fast it plays for the BPM control to line up with the drums.
+// Positions follow the tempo map at the recording's tempo, so ramps and changes stay in step too
+export const getBackingTrackPosition = (
+  pattern: DrumPattern,
+  track: BackingTrackRef,
+  step: number,
+  bpm: number
+): { position: number; playbackRate: number } => {
+  const trackTempo = getBackingTrackTempo(pattern, track);
+  return {
+    position: track.offset + (getStepTimes(pattern, trackTempo)[step] ?? 0),
+    playbackRate: bpm / trackTempo,
+  };
+};
+
+// Slack for a fade out or trailing silence after the drums stop
+const SONG_END_TOLERANCE_SECONDS = 5;
+
+// A pattern that runs to the end of its recording is the song it accompanies, so the two start over
+// together; shorter loops play on over a track that keeps going
+export const isBackingTrackSong = (pattern: DrumPattern, track: BackingTrackRef, duration: number): boolean =>
+  getBackingTrackPosition(pattern, track, pattern.length, getBackingTrackTempo(pattern, track)).position >=
+    duration - SONG_END_TOLERANCE_SECONDS;
@@ -0,0 +1,44 @@
+import { Meter } from '@/lib/drumPattern';
+import { getStepDuration } from '@/lib/meter';
+
+// Bars of clicks played before the pattern, so there is time to pick the sticks back up
+export interface CountInSettings {
+  bars: number; // 0 turns the count-in off
+  voice: boolean; // Speak the beat numbers over the clicks
+  everyLoopPass: boolean; // Count in again each time a practice loop comes back round
+}
+
+// Off until asked for, so Play still starts on the first step
+export const DEFAULT_COUNT_IN: CountInSettings = { bars: 0, voice: false, everyLoopPass: true };
+
+export const COUNT_IN_BAR_OPTIONS = [0, 1, 2, 4];
+
+// Highest beat number with a spoken sample; covers every meter preset up to 12/8
+export const MAX_SPOKEN_COUNT = 12;
+
+export interface CountInBeat {
+  time: number;
+  count: number; // Beat number within its bar, from 1
+  accent: boolean;
+}
+
+export interface CountIn {
+  beats: CountInBeat[];
+  duration: number; // Seconds from the first beat to the step it leads into
+}
+
+// One click per beat of the meter at the tempo the pattern starts at
+export const getCountInBeats = (
+  meter: Meter,
+  tempo: number,
+  bars: number,
+  startTime: number
+): CountIn => {
+  const beatDuration = getStepDuration(tempo, meter) * meter.stepsPerBeat;
+  const beats = Array.from({ length: Math.max(0, bars) * meter.numerator }, (_, i) => ({
+    time: startTime + i * beatDuration,
+    count: (i % meter.numerator) + 1,
+    accent: i % meter.numerator === 0,
+  }));
+  return { beats, duration: beats.length * beatDuration };
+};
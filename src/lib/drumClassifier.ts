@@ -0,0 +1,276 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  DetectedDrumType,
+  DrumListenerMessage,
+  OnsetFeatures,
+  createDrumListenerNode,
+  loadDrumListenerWorklet
+} from '@/lib/onsetDetection';
+
+// Output order of the classifier
+export const DRUM_CLASSES: DetectedDrumType[] = ['kick', 'snare', 'hihat', 'openhat'];
+
+const MFCC_INPUTS = 13;
+const MODEL_STORAGE_URL = 'indexeddb://drum-classifier';
+
+// The same analysis the listener runs live, so training and listening see identical features
+const ANALYSIS_SAMPLE_RATE = 44100;
+// Silence ahead of a sample so its first hit is an onset, and the longest recording used
+const LEAD_IN_SECONDS = 0.05;
+const MAX_SAMPLE_SECONDS = 10;
+// How long the worklet gets to hand back the hits it is still holding once rendering is done
+const FLUSH_TIMEOUT_MS = 5000;
+
+// Saved with the weights: what the inputs are scaled by, and how well the model did when it was trained
+interface ClassifierMetadata {
+  classes: DetectedDrumType[];
+  mean: number[];
+  std: number[];
+  trainedAt: string;
+  exampleCount: number;
+  accuracy: number;
+}
+
+export interface TrainedClassifierInfo {
+  trainedAt: Date;
+  exampleCount: number;
+  accuracy: number;
+}
+
+export interface LabelledFeatures {
+  type: DetectedDrumType;
+  features: OnsetFeatures;
+}
+
+export interface TrainingResult {
+  model: tf.LayersModel;
+  accuracy: number; // 0-1 on the examples held back, or on all of them when there are too few to hold any back
+  evaluatedOn: 'validation' | 'training';
+  confusion: number[][]; // confusion[actual][predicted], in DRUM_CLASSES order
+  exampleCount: number;
+}
+
+export const createDrumClassifierModel = (): tf.Sequential => {
+  const model = tf.sequential({
+    layers: [
+      tf.layers.dense({ inputShape: [MFCC_INPUTS], units: 64, activation: 'relu' }),
+      tf.layers.dropout({ rate: 0.3 }),
+      tf.layers.dense({ units: 32, activation: 'relu' }),
+      tf.layers.dropout({ rate: 0.3 }),
+      tf.layers.dense({ units: DRUM_CLASSES.length, activation: 'softmax' })
+    ]
+  });
+  model.compile({
+    optimizer: 'adam',
+    loss: 'categoricalCrossentropy',
+    metrics: ['accuracy']
+  });
+  return model;
+};
+
+// Every hit in a recording, run through the listener's worklet in an offline context
+export const extractSampleFeatures = async (audio: Blob): Promise<OnsetFeatures[]> => {
+  const decoded = await new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE).decodeAudioData(await audio.arrayBuffer());
+  const seconds = LEAD_IN_SECONDS + Math.min(decoded.duration, MAX_SAMPLE_SECONDS);
+  const context = new OfflineAudioContext(1, Math.ceil(seconds * ANALYSIS_SAMPLE_RATE), ANALYSIS_SAMPLE_RATE);
+  await loadDrumListenerWorklet(context);
+
+  const features: OnsetFeatures[] = [];
+  let onFlushed = () => {};
+  const flushed = new Promise<void>(resolve => { onFlushed = resolve; });
+  const node = createDrumListenerNode(context, (message: DrumListenerMessage) => {
+    if (message.type === 'onset') features.push(message.features);
+    if (message.type === 'flushed') onFlushed();
+  });
+
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(node);
+  source.start(LEAD_IN_SECONDS);
+  await context.startRendering();
+
+  // Hits near the end are still held back waiting for input that will never come
+  node.port.postMessage({ type: 'flush' });
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timeout = setTimeout(
+      () => reject(new Error('Analysing the sample timed out: the drum listener worklet stopped responding')),
+      FLUSH_TIMEOUT_MS
+    );
+  });
+  try {
+    await Promise.race([flushed, timedOut]);
+  } finally {
+    clearTimeout(timeout);
+    node.port.onmessage = null;
+  }
+  return features;
+};
+
+const toInput = (features: OnsetFeatures) => features.mfcc.slice(0, MFCC_INPUTS);
+
+// Shuffle deterministically, so the same samples always give the same split
+const shuffle = <T,>(items: T[]): T[] => {
+  const shuffled = [...items];
+  let seed = 1;
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    seed = (seed * 16807) % 2147483647;
+    const j = seed % (i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Hold back a fifth of each drum's examples when every drum has enough to spare
+const MIN_EXAMPLES_FOR_VALIDATION = 5;
+
+// A model that never heard a drum would still name every hit as one of the others, so all of them are needed
+export const getMissingDrumClasses = (types: string[]): DetectedDrumType[] =>
+  DRUM_CLASSES.filter(type => !types.includes(type));
+
+export const trainDrumClassifier = async (
+  examples: LabelledFeatures[],
+  onEpoch?: (epoch: number, epochs: number) => void,
+  epochs = 80
+): Promise<TrainingResult> => {
+  const byClass = DRUM_CLASSES.map(type => shuffle(examples.filter(example => example.type === type)));
+  const canValidate = byClass.every(group => group.length >= MIN_EXAMPLES_FOR_VALIDATION);
+  const validation = canValidate ? byClass.flatMap(group => group.slice(0, Math.ceil(group.length / 5))) : [];
+  const training = canValidate ? byClass.flatMap(group => group.slice(Math.ceil(group.length / 5))) : byClass.flat();
+  const missing = getMissingDrumClasses(examples.map(example => example.type));
+  if (missing.length > 0) throw new Error(`No hits found in the samples for: ${missing.join(', ')}`);
+
+  // Scale each coefficient to zero mean and unit variance over the training examples
+  const inputs = training.map(example => toInput(example.features));
+  const mean = Array.from({ length: MFCC_INPUTS }, (_, i) => inputs.reduce((sum, input) => sum + input[i], 0) / inputs.length);
+  const std = Array.from({ length: MFCC_INPUTS }, (_, i) =>
+    Math.sqrt(inputs.reduce((sum, input) => sum + (input[i] - mean[i]) ** 2, 0) / inputs.length) || 1
+  );
+  const normalize = (example: LabelledFeatures) => toInput(example.features).map((value, i) => (value - mean[i]) / std[i]);
+
+  const model = createDrumClassifierModel();
+  const xs = tf.tensor2d(training.map(normalize));
+  const ys = tf.oneHot(tf.tensor1d(training.map(example => DRUM_CLASSES.indexOf(example.type)), 'int32'), DRUM_CLASSES.length);
+  try {
+    await model.fit(xs, ys, {
+      epochs,
+      batchSize: 16,
+      shuffle: true,
+      callbacks: { onEpochEnd: epoch => onEpoch?.(epoch + 1, epochs) }
+    });
+  } finally {
+    xs.dispose();
+    ys.dispose();
+  }
+
+  const evaluated = canValidate ? validation : training;
+  const predicted = tf.tidy(() => (model.predict(tf.tensor2d(evaluated.map(normalize))) as tf.Tensor).argMax(1).dataSync());
+  const confusion = DRUM_CLASSES.map(() => DRUM_CLASSES.map(() => 0));
+  evaluated.forEach((example, i) => confusion[DRUM_CLASSES.indexOf(example.type)][predicted[i]]++);
+  const correct = DRUM_CLASSES.reduce((sum, _, i) => sum + confusion[i][i], 0);
+  const accuracy = correct / evaluated.length;
+
+  const metadata: ClassifierMetadata = {
+    classes: DRUM_CLASSES,
+    mean,
+    std,
+    trainedAt: new Date().toISOString(),
+    exampleCount: examples.length,
+    accuracy,
+  };
+  model.setUserDefinedMetadata(metadata);
+
+  return { model, accuracy, evaluatedOn: canValidate ? 'validation' : 'training', confusion, exampleCount: examples.length };
+};
+
+export const saveDrumClassifier = async (model: tf.LayersModel): Promise<void> => {
+  await model.save(MODEL_STORAGE_URL);
+};
+
+// The model trained on this browser's samples, or null when there is none yet
+export const loadDrumClassifier = async (): Promise<tf.LayersModel | null> => {
+  const saved = await tf.io.listModels().catch(() => ({}));
+  if (!(MODEL_STORAGE_URL in saved)) return null;
+  return tf.loadLayersModel(MODEL_STORAGE_URL);
+};
+
+export const deleteDrumClassifier = async (): Promise<void> => {
+  await tf.io.removeModel(MODEL_STORAGE_URL);
+};
+
+const isClassifierMetadata = (value: unknown): value is ClassifierMetadata => {
+  const metadata = value as Partial<ClassifierMetadata> | undefined;
+  return Array.isArray(metadata?.classes) && Array.isArray(metadata.mean) && Array.isArray(metadata.std) &&
+    metadata.mean.length === MFCC_INPUTS && metadata.std.length === MFCC_INPUTS;
+};
+
+// Models saved before the metadata existed, or by other tools, have none
+const getMetadata = (model: tf.LayersModel): ClassifierMetadata | null => {
+  const metadata: unknown = model.getUserDefinedMetadata();
+  return isClassifierMetadata(metadata) ? metadata : null;
+};
+
+export const getTrainedClassifierInfo = (model: tf.LayersModel): TrainedClassifierInfo | null => {
+  const metadata = getMetadata(model);
+  return metadata
+    ? { trainedAt: new Date(metadata.trainedAt), exampleCount: metadata.exampleCount, accuracy: metadata.accuracy }
+    : null;
+};
+
+// Probability of each drum, in DRUM_CLASSES order, with the inputs scaled the way the model was trained
+export const predictDrumClasses = (model: tf.LayersModel, features: OnsetFeatures): number[] => {
+  const metadata = getMetadata(model);
+  const input = toInput(features).map((value, i) => (metadata ? (value - metadata.mean[i]) / metadata.std[i] : value));
+  return tf.tidy(() => Array.from((model.predict(tf.tensor2d([input])) as tf.Tensor).dataSync()));
+};
+
+export interface DrumClassification {
+  type: DetectedDrumType;
+  confidence: number;
+}
+
+// What the listener knows about each onset
+export interface ListenerOnset {
+  features: OnsetFeatures;
+  samples?: Float32Array; // Raw audio from just before the onset, when the classifier asked for it
+  sampleRate: number;
+}
+
+// Whatever names the drum behind an onset: a trained model, a local pre-trained one, or rules of thumb
+export interface DrumClassifier {
+  name: string;
+  captureSeconds: number; // Raw audio it needs after each onset; 0 when the features are enough
+  classify: (onset: ListenerOnset) => Promise<DrumClassification | null>;
+  dispose: () => void;
+}
+
+// Below this the trained model is guessing
+const MIN_TRAINED_CONFIDENCE = 0.8;
+
+export const createTrainedClassifier = (model: tf.LayersModel, name = 'Trained on your samples'): DrumClassifier => ({
+  name,
+  captureSeconds: 0,
+  classify: async ({ features }) => {
+    const probabilities = predictDrumClasses(model, features);
+    const best = probabilities.indexOf(Math.max(...probabilities));
+    return probabilities[best] > MIN_TRAINED_CONFIDENCE ? { type: DRUM_CLASSES[best], confidence: probabilities[best] } : null;
+  },
+  dispose: () => model.dispose(),
+});
+
+// Spectral rules of thumb, for when there is no model to ask
+export const classifyByHeuristics = (features: OnsetFeatures): DrumClassification | null => {
+  if (features.spectralCentroid > 8000 && features.zcr > 0.1) return { type: 'hihat', confidence: 0.9 };
+  if (features.spectralCentroid < 200 && features.energy > 0.01) return { type: 'kick', confidence: 0.95 };
+  if (features.spectralCentroid > 2000 && features.spectralCentroid < 6000 && features.energy > 0.005) {
+    return { type: 'snare', confidence: 0.9 };
+  }
+  return null;
+};
+
+export const HEURISTIC_CLASSIFIER: DrumClassifier = {
+  name: 'Built-in rules',
+  captureSeconds: 0,
+  classify: async ({ features }) => classifyByHeuristics(features),
+  dispose: () => {},
+};
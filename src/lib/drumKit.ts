@@ -0,0 +1,149 @@
+import { DrumNote, InstrumentId, isInstrumentId } from '@/lib/drumPattern';
+
+// One sample file of an instrument; layers are picked by note velocity
+export interface KitSample {
+  file: string; // Relative to the manifest's sample directory
+  minVelocity?: number; // Lowest velocity (0-1) this layer plays for; 0 when absent
+  gain?: number; // Level of this layer relative to the instrument's gain
+}
+
+// Biquad stage in an instrument's signal chain
+export interface KitFilter {
+  type: BiquadFilterType;
+  frequency: number;
+  Q?: number;
+  gain?: number; // dB, for peaking and shelf filters
+}
+
+export interface KitCompressor {
+  threshold: number;
+  knee: number;
+  ratio: number;
+  attack: number;
+  release: number;
+}
+
+export interface KitInstrument {
+  samples: KitSample[];
+  gain: number; // Level at the nominal velocity
+  pan: number; // -1 left to 1 right
+  tune: number; // Semitones
+  chokeGroup?: string; // Instruments in the same group cut each other off, like open and closed hats
+  filters: KitFilter[];
+  compressor?: KitCompressor;
+}
+
+export interface DrumKit {
+  id: string;
+  name: string;
+  sampleBaseUrl: string; // Directory sample files are resolved against
+  instruments: Partial<Record<InstrumentId, KitInstrument>>;
+}
+
+// What to play for a note with a given kit
+export interface ResolvedKitNote {
+  buffer: AudioBuffer;
+  instrument: KitInstrument;
+  sample: KitSample;
+}
+
+// Entry of public/kits/index.json
+export interface KitSummary {
+  id: string;
+  name: string;
+  file: string;
+}
+
+export const DEFAULT_KIT_ID = 'studio';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+// A bare file name is shorthand for a single layer
+const parseKitSample = (value: unknown, where: string): KitSample => {
+  if (typeof value === 'string') return { file: value };
+  if (!isRecord(value) || typeof value.file !== 'string') {
+    throw new Error(`${where}: a sample must be a file name or an object with a "file"`);
+  }
+  return {
+    file: value.file,
+    ...(value.minVelocity !== undefined ? { minVelocity: readNumber(value.minVelocity, 0) } : {}),
+    ...(value.gain !== undefined ? { gain: readNumber(value.gain, 1) } : {}),
+  };
+};
+
+const parseKitInstrument = (value: unknown, where: string): KitInstrument => {
+  if (!isRecord(value)) throw new Error(`${where} must be an object`);
+
+  const samples = Array.isArray(value.samples) ? value.samples : [value.samples];
+  if (samples.length === 0 || samples[0] === undefined) throw new Error(`${where} has no samples`);
+
+  return {
+    samples: samples.map((sample, index) => parseKitSample(sample, `${where} sample ${index + 1}`)),
+    gain: readNumber(value.gain, 0.7),
+    pan: Math.max(-1, Math.min(1, readNumber(value.pan, 0))),
+    tune: readNumber(value.tune, 0),
+    ...(typeof value.chokeGroup === 'string' && value.chokeGroup ? { chokeGroup: value.chokeGroup } : {}),
+    filters: Array.isArray(value.filters)
+      ? value.filters.filter(isRecord).map(filter => ({
+          type: filter.type as BiquadFilterType,
+          frequency: readNumber(filter.frequency, 1000),
+          ...(filter.Q !== undefined ? { Q: readNumber(filter.Q, 1) } : {}),
+          ...(filter.gain !== undefined ? { gain: readNumber(filter.gain, 0) } : {}),
+        }))
+      : [],
+    ...(isRecord(value.compressor) ? {
+      compressor: {
+        threshold: readNumber(value.compressor.threshold, -12),
+        knee: readNumber(value.compressor.knee, 6),
+        ratio: readNumber(value.compressor.ratio, 4),
+        attack: readNumber(value.compressor.attack, 0.003),
+        release: readNumber(value.compressor.release, 0.1),
+      }
+    } : {}),
+  };
+};
+
+// Validate a kit manifest; unknown instrument ids are reported rather than silently ignored
+export const parseKitManifest = (json: unknown, sampleBaseUrl: string): DrumKit => {
+  if (!isRecord(json) || typeof json.id !== 'string' || !isRecord(json.instruments)) {
+    throw new Error('A kit manifest needs an "id" and an "instruments" object');
+  }
+
+  const instruments: DrumKit['instruments'] = {};
+  Object.entries(json.instruments).forEach(([id, value]) => {
+    if (!isInstrumentId(id)) {
+      throw new Error(`Kit "${json.id}" maps unknown instrument "${id}"`);
+    }
+    instruments[id] = parseKitInstrument(value, `Kit "${json.id}" ${id}`);
+  });
+
+  return {
+    id: json.id,
+    name: typeof json.name === 'string' ? json.name : json.id,
+    sampleBaseUrl: typeof json.sampleBaseUrl === 'string' ? json.sampleBaseUrl : sampleBaseUrl,
+    instruments,
+  };
+};
+
+export const getKitSampleUrl = (kit: DrumKit, sample: KitSample): string =>
+  `${kit.sampleBaseUrl.replace(/\/?$/, '/')}${sample.file}`;
+
+// Every distinct sample URL a kit needs, for preloading
+export const getKitSampleUrls = (kit: DrumKit): string[] =>
+  Array.from(new Set(
+    Object.values(kit.instruments).flatMap(instrument => instrument!.samples.map(sample => getKitSampleUrl(kit, sample)))
+  ));
+
+// Velocity layer for a note: the loudest layer whose threshold the note reaches.
+// Several layers sharing a threshold are cycled through by roundRobin
+export const pickKitSample = (instrument: KitInstrument, note: DrumNote, roundRobin = 0): KitSample => {
+  const reached = instrument.samples.filter(sample => (sample.minVelocity || 0) <= note.velocity);
+  const candidates = reached.length > 0 ? reached : [instrument.samples[0]];
+  const threshold = Math.max(...candidates.map(sample => sample.minVelocity || 0));
+  const layer = candidates.filter(sample => (sample.minVelocity || 0) === threshold);
+  return layer[roundRobin % layer.length];
+};
@@ -0,0 +1,180 @@
+// Instruments a pattern can contain, in the order rows are displayed
+export const INSTRUMENT_IDS = [
+  'Kick',
+  'Snare',
+  'HH Closed',
+  'HH Open',
+  'Tom',
+  'Crash Cymbal',
+] as const;
+
+export type InstrumentId = typeof INSTRUMENT_IDS[number];
+
+export interface DrumNote {
+  active: boolean;
+  velocity: number; // 0-1, DEFAULT_VELOCITY plays a sample at its nominal level
+  accent?: boolean;
+  ghost?: boolean;
+}
+
+export const DEFAULT_VELOCITY = 0.8;
+export const GHOST_VELOCITY = 0.3;
+export const ACCENT_GAIN = 1.4;
+
+export type DrumTrack = DrumNote[];
+
+// Time signature plus how finely each beat is split into steps
+export interface Meter {
+  numerator: number; // Beats per bar
+  denominator: number; // Note value of one beat: 4 = quarter, 8 = eighth
+  stepsPerBeat: number; // 4 = 16ths in 4/4, 3 = 8th-note triplets, 6 = 16th-note triplets
+}
+
+// A tempo change at a step; a ramp glides there linearly from the previous event instead of jumping
+export interface TempoEvent {
+  step: number;
+  bpm: number;
+  ramp?: boolean;
+}
+
+// Recording that plays along with a pattern
+export interface BackingTrackRef {
+  file: string; // Name in public/samples, or a URL such as an object URL for a local file
+  name?: string;
+  offset: number; // Seconds into the recording that line up with step 0; negative when it starts after step 0
+  bpm?: number; // Tempo the recording was made at; the pattern's own tempo when absent
+}
+
+// Per-step information that is not an instrument row
+export interface PatternMetadata {
+  subdivisions?: string[]; // Subdivision label for each step (e.g. "1", "e", "&", "a")
+  offsets?: number[]; // Precise offset timing for each step, in beats
+  sections?: string[]; // Section name for each step (e.g. "Verse 1", "Chorus")
+  tempo?: number; // Tempo the pattern was written at, in BPM
+  meter?: Meter; // 4/4 in 16ths when absent
+  tempoMap?: TempoEvent[]; // Tempo changes sorted by step; a single tempo when absent
+  backingTrack?: BackingTrackRef;
+}
+
+export interface DrumPattern {
+  length: number;
+  tracks: Partial<Record<InstrumentId, DrumTrack>>;
+  metadata: PatternMetadata;
+}
+
+export const isInstrumentId = (value: string): value is InstrumentId =>
+  (INSTRUMENT_IDS as readonly string[]).includes(value);
+
+export const createNote = (overrides: Partial<DrumNote> = {}): DrumNote => ({
+  active: true,
+  velocity: DEFAULT_VELOCITY,
+  ...overrides,
+});
+
+export const createRest = (): DrumNote => ({ active: false, velocity: DEFAULT_VELOCITY });
+
+export const createEmptyTrack = (length: number): DrumTrack =>
+  Array.from({ length }, createRest);
+
+export const clampVelocity = (velocity: number): number =>
+  Math.max(0.05, Math.min(1, velocity));
+
+// Gain multiplier relative to the instrument's nominal level
+export const getNoteGain = (note: DrumNote): number =>
+  (note.velocity / DEFAULT_VELOCITY) * (note.accent ? ACCENT_GAIN : 1);
+
+// Click cycle used by the editors: normal -> accent -> ghost -> normal
+export const cycleArticulation = (note: DrumNote): Partial<DrumNote> => {
+  if (note.ghost) return { accent: false, ghost: false, velocity: DEFAULT_VELOCITY };
+  if (note.accent) return { accent: false, ghost: true, velocity: GHOST_VELOCITY };
+  return { accent: true, ghost: false, velocity: DEFAULT_VELOCITY };
+};
+
+export const createEmptyPattern = (
+  length: number,
+  instruments: readonly InstrumentId[] = INSTRUMENT_IDS,
+  metadata: PatternMetadata = {}
+): DrumPattern => {
+  const tracks: DrumPattern['tracks'] = {};
+  instruments.forEach(instrument => {
+    tracks[instrument] = createEmptyTrack(length);
+  });
+  return { length, tracks, metadata };
+};
+
+// Instrument rows of a pattern, in display order
+export const getTracks = (pattern: DrumPattern): [InstrumentId, DrumTrack][] =>
+  INSTRUMENT_IDS
+    .filter(instrument => pattern.tracks[instrument])
+    .map(instrument => [instrument, pattern.tracks[instrument]!]);
+
+export const isStepActive = (pattern: DrumPattern, instrument: InstrumentId, step: number): boolean =>
+  !!pattern.tracks[instrument]?.[step]?.active;
+
+export const countActiveSteps = (track: DrumTrack): number =>
+  track.filter(note => note.active).length;
+
+export const toggleStep = (pattern: DrumPattern, instrument: InstrumentId, step: number): DrumPattern => {
+  const track = pattern.tracks[instrument];
+  if (!track) return pattern;
+
+  return {
+    ...pattern,
+    tracks: {
+      ...pattern.tracks,
+      [instrument]: track.map((note, index) =>
+        index === step ? (note.active ? createRest() : createNote()) : note
+      ),
+    },
+  };
+};
+
+export const updateNote = (
+  pattern: DrumPattern,
+  instrument: InstrumentId,
+  step: number,
+  changes: Partial<DrumNote>
+): DrumPattern => {
+  const track = pattern.tracks[instrument];
+  if (!track || !track[step]) return pattern;
+
+  return {
+    ...pattern,
+    tracks: {
+      ...pattern.tracks,
+      [instrument]: track.map((note, index) =>
+        index === step ? { ...note, ...changes } : note
+      ),
+    },
+  };
+};
+
+// Metadata that describes the whole pattern rather than individual steps
+const getPatternWideMetadata = ({ meter }: PatternMetadata): PatternMetadata =>
+  meter ? { meter } : {};
+
+// Keeps the instrument rows and meter but removes every note and per-step metadata
+export const clearPattern = (pattern: DrumPattern, length = pattern.length): DrumPattern =>
+  createEmptyPattern(length, getTracks(pattern).map(([instrument]) => instrument), getPatternWideMetadata(pattern.metadata));
+
+// Conversion helpers between plain on/off step arrays (as produced by the loaders) and tracks
+export const trackFromFlags = (flags: boolean[]): DrumTrack =>
+  flags.map(active => (active ? createNote() : createRest()));
+
+export const trackToFlags = (track: DrumTrack): boolean[] =>
+  track.map(note => note.active);
+
+export const patternFromFlags = (
+  flags: Partial<Record<InstrumentId, boolean[]>>,
+  length: number,
+  metadata: PatternMetadata = {}
+): DrumPattern => {
+  const tracks: DrumPattern['tracks'] = {};
+  INSTRUMENT_IDS.forEach(instrument => {
+    const steps = flags[instrument];
+    if (steps) {
+      tracks[instrument] = trackFromFlags(Array.from({ length }, (_, index) => !!steps[index]));
+    }
+  });
+  return { length, tracks, metadata };
+};
@@ -0,0 +1,145 @@
+import { DrumNote, InstrumentId, getNoteGain } from '@/lib/drumPattern';
+import { KitInstrument, KitSample, ResolvedKitNote } from '@/lib/drumKit';
+
+// A sounding hit: the source can be stopped early, the output faded
+export interface DrumVoice {
+  source: AudioBufferSourceNode;
+  output: GainNode;
+}
+
+// Builds source -> filters -> compressor -> gain -> pan for one hit and starts it at the given time.
+// Works on any BaseAudioContext, so live playback and offline rendering share the same sound
+export const playKitSample = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  buffer: AudioBuffer,
+  instrument: KitInstrument,
+  sample: KitSample,
+  note: DrumNote,
+  time: number
+): DrumVoice => {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.setValueAtTime(2 ** (instrument.tune / 12), time);
+
+  let chain: AudioNode = source;
+  instrument.filters.forEach(({ type, frequency, Q, gain }) => {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.setValueAtTime(frequency, time);
+    if (Q !== undefined) filter.Q.setValueAtTime(Q, time);
+    if (gain !== undefined) filter.gain.setValueAtTime(gain, time);
+    chain.connect(filter);
+    chain = filter;
+  });
+
+  if (instrument.compressor) {
+    const { threshold, knee, ratio, attack, release } = instrument.compressor;
+    const compressor = context.createDynamicsCompressor();
+    compressor.threshold.setValueAtTime(threshold, time);
+    compressor.knee.setValueAtTime(knee, time);
+    compressor.ratio.setValueAtTime(ratio, time);
+    compressor.attack.setValueAtTime(attack, time);
+    compressor.release.setValueAtTime(release, time);
+    chain.connect(compressor);
+    chain = compressor;
+  }
+
+  const output = context.createGain();
+  output.gain.setValueAtTime(instrument.gain * (sample.gain ?? 1) * getNoteGain(note), time);
+  chain.connect(output);
+
+  if (instrument.pan !== 0) {
+    const panner = context.createStereoPanner();
+    panner.pan.setValueAtTime(instrument.pan, time);
+    output.connect(panner);
+    panner.connect(destination);
+  } else {
+    output.connect(destination);
+  }
+
+  source.start(time);
+  return { source, output };
+};
+
+// The hat's noise comes from a fixed seed, so every hit, and every render of a pattern, sounds the same
+const HAT_NOISE_SEED = 0x2f6b;
+
+// Synthesized closed hat for when a kit has no hat sample, or it has not finished loading
+export const playFallbackHat = (context: BaseAudioContext, destination: AudioNode, note: DrumNote, time: number): DrumVoice => {
+  const bufferSize = context.sampleRate * 0.06;
+  const buffer = context.createBuffer(1, bufferSize, context.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  // Metallic noise with a fast decay
+  let seed = HAT_NOISE_SEED;
+  for (let i = 0; i < bufferSize; i++) {
+    seed = (seed * 16807) % 2147483647;
+    data[i] = (seed / 1073741823.5 - 1) * Math.exp(-i / bufferSize * 12);
+  }
+
+  const noise = context.createBufferSource();
+  noise.buffer = buffer;
+
+  const highpass = context.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.frequency.setValueAtTime(9000, time);
+
+  const bandpass = context.createBiquadFilter();
+  bandpass.type = 'bandpass';
+  bandpass.frequency.setValueAtTime(11000, time);
+  bandpass.Q.setValueAtTime(2, time);
+
+  const gainNode = context.createGain();
+
+  noise.connect(highpass);
+  highpass.connect(bandpass);
+  bandpass.connect(gainNode);
+  gainNode.connect(destination);
+
+  // Tight envelope for closed hat
+  gainNode.gain.setValueAtTime(0, time);
+  gainNode.gain.linearRampToValueAtTime(0.3 * getNoteGain(note), time + 0.001);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.06);
+
+  noise.start(time);
+  noise.stop(time + 0.06);
+  return { source: noise, output: gainNode };
+};
+
+// One hit of an instrument: its kit sample, or the synthesized hat while a hat sample is missing.
+// Null when nothing can sound yet
+export const playDrumHit = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  drum: InstrumentId,
+  note: DrumNote,
+  time: number,
+  resolved: ResolvedKitNote | null
+): DrumVoice | null => {
+  if (resolved) {
+    return playKitSample(context, destination, resolved.buffer, resolved.instrument, resolved.sample, note, time);
+  }
+  if (drum === 'HH Closed' || drum === 'HH Open') {
+    return playFallbackHat(context, destination, note, time);
+  }
+  return null;
+};
+
+// Metronome click, higher and louder on the downbeat
+export const playMetronomeClick = (context: BaseAudioContext, destination: AudioNode, time: number, accent = false) => {
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(destination);
+
+  oscillator.frequency.setValueAtTime(accent ? 1500 : 1000, time);
+  oscillator.type = 'sine';
+
+  gainNode.gain.setValueAtTime(accent ? 0.2 : 0.1, time);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
+
+  oscillator.start(time);
+  oscillator.stop(time + 0.05);
+};
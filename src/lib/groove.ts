@@ -0,0 +1,102 @@
+import { DrumNote, DrumPattern, INSTRUMENT_IDS, InstrumentId, Meter, clampVelocity, getTracks } from '@/lib/drumPattern';
+import { getPatternMeter, getStepsPerBar, getStepsPerQuarter } from '@/lib/meter';
+import { getPlaybackTempo } from '@/lib/tempoMap';
+
+export type SwingUnit = '8th' | '16th';
+
+// Feel applied on top of the grid while scheduling; the pattern itself always stays on the grid
+export interface GrooveSettings {
+  swing: number; // 0 plays straight, 1 delays every off-beat to the triplet position
+  swingUnit: SwingUnit; // Which off-beats are delayed
+  timingJitter: number; // Largest random push or pull of a hit, in milliseconds
+  velocityJitter: number; // Largest random change of a hit's velocity, as a fraction of it
+  seed: number; // The same seed always produces the same humanization
+}
+
+export const DEFAULT_GROOVE: GrooveSettings = {
+  swing: 0,
+  swingUnit: '8th',
+  timingJitter: 0,
+  velocityJitter: 0,
+  seed: 1,
+};
+
+export const MAX_TIMING_JITTER_MS = 40;
+export const MAX_VELOCITY_JITTER = 0.5;
+
+export const createGrooveSeed = (): number => Math.floor(Math.random() * 100000) + 1;
+
+// Steps in one swing unit, or null when the grid cannot be swung in it (triplet or 12/8 grids)
+const getSwingUnitSteps = (unit: SwingUnit, stepsPerQuarter: number): number | null => {
+  const steps = stepsPerQuarter / (unit === '8th' ? 2 : 4);
+  return Number.isInteger(steps) && steps >= 1 ? steps : null;
+};
+
+// Seconds an off-beat step is pushed late; a full swing moves it a third of a unit later, onto the triplet.
+// Off-beats are counted from the start of the bar, so bars with an odd number of units (7/8) swing the same way each time
+export const getSwingOffset = (
+  groove: GrooveSettings,
+  step: number,
+  meter: Meter,
+  stepDuration: number
+): number => {
+  const unitSteps = getSwingUnitSteps(groove.swingUnit, getStepsPerQuarter(meter));
+  const position = step % getStepsPerBar(meter);
+  if (!unitSteps || groove.swing <= 0 || position % unitSteps !== 0) return 0;
+
+  const isOffBeat = Math.floor(position / unitSteps) % 2 === 1;
+  return isOffBeat ? (groove.swing * unitSteps * stepDuration) / 3 : 0;
+};
+
+// Deterministic number in [-1, 1) for a seed, pass, step and voice, so humanization repeats exactly for a seed
+// but each pass of the loop gets its own
+const getJitter = (seed: number, pass: number, step: number, voice: number, channel: number): number => {
+  let hash = Math.imul(seed, 0x9e3779b1) ^ Math.imul(pass, 0x165667b1) ^ Math.imul(step, 0x85ebca6b) ^
+    Math.imul(voice, 0xc2b2ae35) ^ Math.imul(channel, 0x27d4eb2f);
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x80000000 - 1;
+};
+
+// Random timing offset for one hit, in seconds
+export const getTimingJitter = (groove: GrooveSettings, pass: number, step: number, voice: number): number =>
+  groove.timingJitter > 0 ? (getJitter(groove.seed, pass, step, voice, 0) * groove.timingJitter) / 1000 : 0;
+
+// The note with its velocity nudged by the humanize setting
+export const humanizeNote = (groove: GrooveSettings, note: DrumNote, pass: number, step: number, voice: number): DrumNote =>
+  groove.velocityJitter > 0
+    ? { ...note, velocity: clampVelocity(note.velocity * (1 + getJitter(groove.seed, pass, step, voice, 1) * groove.velocityJitter)) }
+    : note;
+
+export interface GrooveHit {
+  instrument: InstrumentId;
+  note: DrumNote;
+  time: number;
+}
+
+// Every hit of a step with swing and humanize applied, given the time the step falls on the grid
+// and which pass through the pattern it is in
+export const getGrooveHits = (
+  pattern: DrumPattern,
+  step: number,
+  time: number,
+  bpm: number,
+  groove: GrooveSettings,
+  pass: number
+): GrooveHit[] => {
+  const meter = getPatternMeter(pattern);
+  const stepDuration = 60 / getPlaybackTempo(pattern, step, bpm) / getStepsPerQuarter(meter);
+  const swungTime = time + getSwingOffset(groove, step, meter, stepDuration);
+
+  return getTracks(pattern)
+    .filter(([, steps]) => steps[step]?.active)
+    .map(([instrument, steps]) => {
+      const voice = INSTRUMENT_IDS.indexOf(instrument);
+      return {
+        instrument,
+        note: humanizeNote(groove, steps[step], pass, step, voice),
+        time: swungTime + getTimingJitter(groove, pass, step, voice),
+      };
+    });
+};
@@ -0,0 +1,132 @@
+import * as tf from '@tensorflow/tfjs';
+import type { InferenceSession } from 'onnxruntime-web';
+import { DrumClassification, DrumClassifier, ListenerOnset, predictDrumClasses } from '@/lib/drumClassifier';
+import { DetectedDrumType } from '@/lib/onsetDetection';
+import { LOCAL_MODELS, LocalModelEntry } from '@/lib/modelRegistry';
+
+const MODELS_URL = `${import.meta.env.BASE_URL || '/'}models/`;
+
+const modelUrl = (entry: LocalModelEntry, file: string) => `${MODELS_URL}${entry.directory}/${file}`;
+
+// The dev server answers a missing file with the app's index.html, so a 200 alone does not mean it is there
+const fileExists = async (url: string): Promise<boolean> => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok && !(response.headers.get('content-type') ?? '').includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+const loadLabels = async (entry: LocalModelEntry): Promise<string[]> => {
+  if (entry.labels) return entry.labels;
+
+  const response = await fetch(modelUrl(entry, 'config.json'));
+  if (!response.ok) throw new Error(`${entry.name} has no labels and no config.json`);
+  const config: { id2label?: Record<string, string> } = await response.json();
+  if (!config.id2label) throw new Error(`${entry.name}'s config.json has no id2label`);
+  return Object.entries(config.id2label)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([, label]) => label);
+};
+
+// Linear interpolation to the model's rate, cut or padded with silence to its input length
+const resample = (samples: Float32Array, fromRate: number, toRate: number, length: number): Float32Array => {
+  const resampled = new Float32Array(length);
+  const ratio = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    if (index + 1 >= samples.length) break;
+    resampled[i] = samples[index] + (samples[index + 1] - samples[index]) * (position - index);
+  }
+  return resampled;
+};
+
+const softmax = (values: number[]): number[] => {
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map(value => value / sum);
+};
+
+// Models that score several frames per input (YAMNet scores every 0.48 s) give one row of scores per frame
+const averageFrames = (scores: ArrayLike<number>, labelCount: number): number[] => {
+  const frames = Math.max(1, Math.floor(scores.length / labelCount));
+  return Array.from({ length: labelCount }, (_, label) => {
+    let sum = 0;
+    for (let frame = 0; frame < frames; frame++) sum += scores[frame * labelCount + label];
+    return sum / frames;
+  });
+};
+
+// The best-scoring drum label, even when a label that is not a drum scored higher
+const pickDrum = (entry: LocalModelEntry, labels: string[], scores: number[]): DrumClassification | null => {
+  const probabilities = entry.outputs === 'logits' ? softmax(scores) : scores;
+  let best: DrumClassification | null = null;
+  labels.forEach((label, index) => {
+    const type: DetectedDrumType | undefined = entry.drumLabels[label];
+    if (type && (!best || probabilities[index] > best.confidence)) best = { type, confidence: probabilities[index] };
+  });
+  return best && best.confidence >= entry.minConfidence ? best : null;
+};
+
+const toInput = (entry: LocalModelEntry, onset: ListenerOnset): Float32Array => {
+  if (entry.input.kind === 'mfcc') return Float32Array.from(onset.features.mfcc.slice(0, entry.input.coefficients));
+  if (!onset.samples) throw new Error(`${entry.name} needs the audio after each onset`);
+  return resample(onset.samples, onset.sampleRate, entry.sampleRate, entry.input.samples);
+};
+
+const loadTfjsScorer = async (entry: LocalModelEntry) => {
+  const url = modelUrl(entry, entry.file);
+  const model = entry.format === 'tfjs-layers' ? await tf.loadLayersModel(url) : await tf.loadGraphModel(url);
+
+  const score = async (input: Float32Array, onset: ListenerOnset): Promise<ArrayLike<number>> => {
+    // Layers models saved from the System Learning page carry the scaling they were trained with
+    if (model instanceof tf.LayersModel && entry.input.kind === 'mfcc') return predictDrumClasses(model, onset.features);
+    return tf.tidy(() => (model.predict(tf.tensor2d([Array.from(input)])) as tf.Tensor).dataSync());
+  };
+  return { score, dispose: () => model.dispose() };
+};
+
+const loadOnnxScorer = async (entry: LocalModelEntry) => {
+  // Only downloaded when an ONNX model is actually there
+  const ort = await import('onnxruntime-web');
+  const session: InferenceSession = await ort.InferenceSession.create(modelUrl(entry, entry.file));
+
+  const score = async (input: Float32Array): Promise<ArrayLike<number>> => {
+    // Waveform models take the audio as is, feature models a batch of one
+    const dims = entry.input.kind === 'waveform' ? [input.length] : [1, input.length];
+    const results = await session.run({ [session.inputNames[0]]: new ort.Tensor('float32', input, dims) });
+    return results[session.outputNames[0]].data as Float32Array;
+  };
+  return { score, dispose: () => { session.release(); } };
+};
+
+const loadLocalModel = async (entry: LocalModelEntry): Promise<DrumClassifier> => {
+  const labels = await loadLabels(entry);
+  const { score, dispose } = entry.format === 'onnx' ? await loadOnnxScorer(entry) : await loadTfjsScorer(entry);
+
+  return {
+    name: entry.name,
+    captureSeconds: entry.input.kind === 'waveform' ? entry.input.captureSeconds : 0,
+    classify: async onset => {
+      const scores = await score(toInput(entry, onset), onset);
+      return pickDrum(entry, labels, averageFrames(scores, labels.length));
+    },
+    dispose,
+  };
+};
+
+// The first model in the registry whose files are in public/models, or null when there are none
+export const loadLocalClassifier = async (): Promise<DrumClassifier | null> => {
+  for (const entry of LOCAL_MODELS) {
+    if (!(await fileExists(modelUrl(entry, entry.file)))) continue;
+    try {
+      return await loadLocalModel(entry);
+    } catch (err) {
+      console.error(`Error loading local model ${entry.name}:`, err);
+    }
+  }
+  return null;
+};
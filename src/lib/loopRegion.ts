@@ -0,0 +1,48 @@
+// Steps playback cycles through while practising a passage; end is exclusive
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+// A named run of consecutive steps in the pattern's sections array
+export interface SectionRange extends LoopRegion {
+  name: string;
+}
+
+// Loop from two steps picked in either order, both included
+export const createLoopRegion = (from: number, to: number): LoopRegion => ({
+  start: Math.min(from, to),
+  end: Math.max(from, to) + 1,
+});
+
+export const isSameLoopRegion = (a: LoopRegion | null, b: LoopRegion | null): boolean =>
+  a === b || (!!a && !!b && a.start === b.start && a.end === b.end);
+
+// A region left over from a longer pattern no longer applies
+export const getValidLoopRegion = (loop: LoopRegion | null, length: number): LoopRegion | null =>
+  loop && loop.start >= 0 && loop.start < loop.end && loop.end <= length ? loop : null;
+
+export const isStepInLoop = (loop: LoopRegion | null, step: number): boolean =>
+  !!loop && step >= loop.start && step < loop.end;
+
+// Step the transport plays after this one: back to the loop start at its end, otherwise on through the pattern
+export const getNextStep = (step: number, length: number, loop: LoopRegion | null): number => {
+  if (loop && step === loop.end - 1) return loop.start;
+  return (step + 1) % Math.max(1, length);
+};
+
+// Consecutive steps sharing a section name; steps without one belong to the section before them
+export const getSectionRanges = (sections: string[] | undefined, length: number): SectionRange[] => {
+  const ranges: SectionRange[] = [];
+  if (!sections) return ranges;
+
+  for (let step = 0; step < length; step++) {
+    const name = sections[step];
+    const current = ranges[ranges.length - 1];
+    if (name && name !== current?.name) {
+      if (current) current.end = step;
+      ranges.push({ name, start: step, end: length });
+    }
+  }
+  return ranges;
+};
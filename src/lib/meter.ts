@@ -0,0 +1,116 @@
+import { DrumPattern, Meter, createRest } from '@/lib/drumPattern';
+
+export const DEFAULT_METER: Meter = { numerator: 4, denominator: 4, stepsPerBeat: 4 };
+
+// Loaders that count "1 & 2 &" one row per step produce an 8th-note grid
+export const EIGHTH_NOTE_METER: Meter = { numerator: 4, denominator: 4, stepsPerBeat: 2 };
+
+export const METER_PRESETS: { id: string; label: string; meter: Meter }[] = [
+  { id: '4/4', label: '4/4 (16ths)', meter: DEFAULT_METER },
+  { id: '4/4-8ths', label: '4/4 (8ths)', meter: EIGHTH_NOTE_METER },
+  { id: '4/4-triplets', label: '4/4 (16th triplets)', meter: { numerator: 4, denominator: 4, stepsPerBeat: 6 } },
+  { id: '3/4', label: '3/4 (16ths)', meter: { numerator: 3, denominator: 4, stepsPerBeat: 4 } },
+  { id: '6/8', label: '6/8 (16ths)', meter: { numerator: 6, denominator: 8, stepsPerBeat: 2 } },
+  { id: '7/8', label: '7/8 (16ths)', meter: { numerator: 7, denominator: 8, stepsPerBeat: 2 } },
+  { id: '12/8', label: '12/8 (8ths)', meter: { numerator: 12, denominator: 8, stepsPerBeat: 1 } },
+];
+
+// Count syllables after the beat number, by steps per beat
+const SUBDIVISION_LABELS: Record<number, string[]> = {
+  1: [],
+  2: ['&'],
+  3: ['trip', 'let'],
+  4: ['e', '&', 'a'],
+  6: ['la', 'li', '&', 'la', 'li'],
+};
+
+export const getSubdivisionLabels = (stepsPerBeat: number): string[] | undefined =>
+  SUBDIVISION_LABELS[stepsPerBeat];
+
+export const isSameMeter = (a: Meter, b: Meter): boolean =>
+  a.numerator === b.numerator && a.denominator === b.denominator && a.stepsPerBeat === b.stepsPerBeat;
+
+export const formatMeter = ({ numerator, denominator }: Meter): string => `${numerator}/${denominator}`;
+
+// Reads "6/8" style time signatures; null when the text is not one
+export const parseTimeSignature = (text: string): Pick<Meter, 'numerator' | 'denominator'> | null => {
+  const match = text.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return null;
+  const numerator = parseInt(match[1]);
+  const denominator = parseInt(match[2]);
+  if (numerator < 1 || ![2, 4, 8, 16].includes(denominator)) return null;
+  return { numerator, denominator };
+};
+
+export const getPatternMeter = (pattern: DrumPattern): Meter =>
+  pattern.metadata.meter || DEFAULT_METER;
+
+export const getStepsPerBar = (meter: Meter): number =>
+  meter.numerator * meter.stepsPerBeat;
+
+// Tempo is always given in quarter notes per minute, whatever the beat unit
+export const getStepsPerQuarter = (meter: Meter): number =>
+  (meter.stepsPerBeat * meter.denominator) / 4;
+
+export const getStepDuration = (bpm: number, meter: Meter): number =>
+  60 / bpm / getStepsPerQuarter(meter);
+
+// Whole bars that fit in roughly 16 steps, and never less than one bar
+export const getStepsPerView = (meter: Meter): number => {
+  const stepsPerBar = getStepsPerBar(meter);
+  return Math.max(1, Math.floor(16 / stepsPerBar)) * stepsPerBar;
+};
+
+// Beats grouped into felt pulses: 6/8 is 3+3, 7/8 is 2+2+3, simple meters pulse on every beat
+export const getPulseGroups = (meter: Meter): number[] => {
+  const { numerator, denominator } = meter;
+  if (denominator >= 8 && numerator > 3 && numerator % 3 === 0) {
+    return Array(numerator / 3).fill(3);
+  }
+  if (denominator >= 8 && numerator > 4 && numerator % 2 === 1) {
+    return [...Array((numerator - 3) / 2).fill(2), 3];
+  }
+  return Array(numerator).fill(1);
+};
+
+// Beat indices within the bar where a pulse starts
+const getPulseStarts = (meter: Meter): number[] => {
+  let beat = 0;
+  return getPulseGroups(meter).map(group => {
+    const start = beat;
+    beat += group;
+    return start;
+  });
+};
+
+export type StepLevel = 'bar' | 'pulse' | 'beat' | 'sub';
+
+// How strong a step is: the downbeat, a felt pulse, any other beat, or a subdivision
+export const getStepLevel = (meter: Meter, step: number): StepLevel => {
+  const stepInBar = step % getStepsPerBar(meter);
+  if (stepInBar === 0) return 'bar';
+  if (stepInBar % meter.stepsPerBeat !== 0) return 'sub';
+  return getPulseStarts(meter).includes(stepInBar / meter.stepsPerBeat) ? 'pulse' : 'beat';
+};
+
+// Count label for a step: the beat number on beats, "e & a" / "trip let" / "la li & la li" in between
+export const getCountLabel = (meter: Meter, step: number): string => {
+  const stepInBar = step % getStepsPerBar(meter);
+  const stepInBeat = stepInBar % meter.stepsPerBeat;
+  if (stepInBeat === 0) return String(stepInBar / meter.stepsPerBeat + 1);
+  return getSubdivisionLabels(meter.stepsPerBeat)?.[stepInBeat - 1] || '·';
+};
+
+// Stamp a meter on a pattern, padding it with rests to a whole number of bars
+export const applyMeter = (pattern: DrumPattern, meter: Meter): DrumPattern => {
+  const stepsPerBar = getStepsPerBar(meter);
+  const length = Math.max(stepsPerBar, Math.ceil(pattern.length / stepsPerBar) * stepsPerBar);
+  const tracks: DrumPattern['tracks'] = {};
+  Object.entries(pattern.tracks).forEach(([instrument, track]) => {
+    tracks[instrument as keyof DrumPattern['tracks']] = Array.from({ length }, (_, index) => track![index] || createRest());
+  });
+  // CSV count labels only make sense in the meter they were written for
+  const { subdivisions, ...metadata } = pattern.metadata;
+  const keepsLabels = isSameMeter(getPatternMeter(pattern), meter);
+  return { length, tracks, metadata: { ...metadata, ...(keepsLabels && subdivisions ? { subdivisions } : {}), meter } };
+};
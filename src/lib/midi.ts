@@ -0,0 +1,394 @@
+import { ACCENT_GAIN, DrumPattern, InstrumentId, Meter, getTracks } from '@/lib/drumPattern';
+import { DEFAULT_METER, getPatternMeter, getStepsPerQuarter } from '@/lib/meter';
+import { getPlaybackTempo } from '@/lib/tempoMap';
+
+// General MIDI channel 10 (index 9) carries percussion
+export const GM_DRUM_CHANNEL = 9;
+
+// General MIDI percussion key map onto our instruments
+export const GM_DRUM_MAP: Record<number, InstrumentId> = {
+  35: 'Kick', // Acoustic Bass Drum
+  36: 'Kick', // Bass Drum 1
+  37: 'Snare', // Side Stick
+  38: 'Snare', // Acoustic Snare
+  40: 'Snare', // Electric Snare
+  41: 'Tom', // Low Floor Tom
+  42: 'HH Closed', // Closed Hi-Hat
+  43: 'Tom', // High Floor Tom
+  44: 'HH Closed', // Pedal Hi-Hat
+  45: 'Tom', // Low Tom
+  46: 'HH Open', // Open Hi-Hat
+  47: 'Tom', // Low-Mid Tom
+  48: 'Tom', // Hi-Mid Tom
+  49: 'Crash Cymbal', // Crash Cymbal 1
+  50: 'Tom', // High Tom
+  52: 'Crash Cymbal', // Chinese Cymbal
+  55: 'Crash Cymbal', // Splash Cymbal
+  57: 'Crash Cymbal', // Crash Cymbal 2
+};
+
+// Names for the percussion keys we do not map, so unmapped notes can be reported readably
+const GM_DRUM_NAMES: Record<number, string> = {
+  39: 'Hand Clap',
+  51: 'Ride Cymbal 1',
+  53: 'Ride Bell',
+  54: 'Tambourine',
+  56: 'Cowbell',
+  58: 'Vibraslap',
+  59: 'Ride Cymbal 2',
+  60: 'Hi Bongo',
+  61: 'Low Bongo',
+  62: 'Mute Hi Conga',
+  63: 'Open Hi Conga',
+  64: 'Low Conga',
+  69: 'Cabasa',
+  70: 'Maracas',
+  75: 'Claves',
+  76: 'Hi Wood Block',
+  77: 'Low Wood Block',
+};
+
+export const getGMDrumName = (note: number): string =>
+  GM_DRUM_NAMES[note] || GM_DRUM_MAP[note] || `Note ${note}`;
+
+export interface MidiNoteEvent {
+  tick: number;
+  channel: number;
+  note: number;
+  velocity: number; // 1-127
+}
+
+export interface MidiTempoEvent {
+  tick: number;
+  bpm: number;
+}
+
+export interface MidiTimeSignatureEvent {
+  tick: number;
+  numerator: number;
+  denominator: number;
+}
+
+export interface MidiMarkerEvent {
+  tick: number;
+  text: string;
+}
+
+export interface MidiFile {
+  format: number;
+  ticksPerQuarter: number;
+  trackCount: number;
+  notes: MidiNoteEvent[];
+  tempos: MidiTempoEvent[];
+  timeSignatures: MidiTimeSignatureEvent[];
+  markers: MidiMarkerEvent[];
+}
+
+const readChunkId = (view: DataView, offset: number): string =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const decodeText = (bytes: Uint8Array): string =>
+  new TextDecoder('latin1').decode(bytes).trim();
+
+// Parses a Standard MIDI File (format 0 or 1) into flat, tick-sorted event lists
+export const parseMidiFile = (buffer: ArrayBuffer): MidiFile => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes.length < 14 || readChunkId(view, 0) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File (missing MThd header)');
+  }
+
+  const headerLength = view.getUint32(4);
+  const format = view.getUint16(8);
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+
+  if (format > 1) {
+    throw new Error(`MIDI format ${format} is not supported. Export as Type 0 or Type 1.`);
+  }
+  if (division & 0x8000) {
+    throw new Error('SMPTE time division is not supported. Export with ticks per quarter note.');
+  }
+
+  const result: MidiFile = {
+    format,
+    ticksPerQuarter: division,
+    trackCount,
+    notes: [],
+    tempos: [],
+    timeSignatures: [],
+    markers: []
+  };
+
+  let offset = 8 + headerLength;
+
+  for (let track = 0; track < trackCount && offset + 8 <= bytes.length; track++) {
+    const chunkId = readChunkId(view, offset);
+    const chunkLength = view.getUint32(offset + 4);
+    const chunkEnd = Math.min(offset + 8 + chunkLength, bytes.length);
+    let position = offset + 8;
+    offset = chunkEnd;
+
+    // Skip unknown chunks without counting them as tracks
+    if (chunkId !== 'MTrk') {
+      track--;
+      continue;
+    }
+
+    let tick = 0;
+    let runningStatus = 0;
+
+    const readVariableLength = (): number => {
+      let value = 0;
+      let byte: number;
+      do {
+        byte = bytes[position++];
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80 && position < chunkEnd);
+      return value;
+    };
+
+    while (position < chunkEnd) {
+      tick += readVariableLength();
+
+      let status = bytes[position];
+      if (status & 0x80) {
+        position++;
+      } else if (runningStatus) {
+        // Running status: reuse the previous channel status byte
+        status = runningStatus;
+      } else {
+        throw new Error('Corrupt MIDI track: a data byte has no status byte before it');
+      }
+
+      if (status === 0xff) {
+        // Meta and SysEx events cancel running status
+        runningStatus = 0;
+        const type = bytes[position++];
+        const length = readVariableLength();
+        const data = bytes.subarray(position, position + length);
+        position += length;
+
+        if (type === 0x51 && length === 3) {
+          const microsecondsPerQuarter = (data[0] << 16) | (data[1] << 8) | data[2];
+          result.tempos.push({ tick, bpm: 60000000 / microsecondsPerQuarter });
+        } else if (type === 0x58 && length >= 2) {
+          result.timeSignatures.push({ tick, numerator: data[0], denominator: 2 ** data[1] });
+        } else if (type === 0x06) {
+          result.markers.push({ tick, text: decodeText(data) });
+        } else if (type === 0x2f) {
+          break; // End of track
+        }
+      } else if (status === 0xf0 || status === 0xf7) {
+        // SysEx: skip payload
+        runningStatus = 0;
+        const length = readVariableLength();
+        position += length;
+      } else {
+        runningStatus = status;
+        const type = status & 0xf0;
+        const channel = status & 0x0f;
+
+        if (type === 0xc0 || type === 0xd0) {
+          position += 1;
+        } else {
+          const note = bytes[position];
+          const velocity = bytes[position + 1];
+          position += 2;
+
+          // Note-on with velocity 0 is a note-off
+          if (type === 0x90 && velocity > 0) {
+            result.notes.push({ tick, channel, note, velocity });
+          }
+        }
+      }
+    }
+  }
+
+  const byTick = (a: { tick: number }, b: { tick: number }) => a.tick - b.tick;
+  result.notes.sort(byTick);
+  result.tempos.sort(byTick);
+  result.timeSignatures.sort(byTick);
+  result.markers.sort(byTick);
+
+  return result;
+};
+
+// General MIDI key written for each instrument on export
+export const GM_EXPORT_NOTES: Record<InstrumentId, number> = {
+  'Kick': 36,
+  'Snare': 38,
+  'HH Closed': 42,
+  'HH Open': 46,
+  'Tom': 45,
+  'Crash Cymbal': 49,
+};
+
+const EXPORT_TICKS_PER_QUARTER = 480;
+
+interface TimedEvent {
+  tick: number;
+  order: number; // Tie-breaker at equal ticks: meta, then note-offs, then note-ons
+  data: number[];
+}
+
+const encodeVariableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let remaining = value >> 7;
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+  return bytes;
+};
+
+const encodeText = (text: string): number[] =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 0x3f; // '?' for characters outside latin1
+  });
+
+const metaEvent = (type: number, data: number[]): number[] =>
+  [0xff, type, ...encodeVariableLength(data.length), ...data];
+
+export interface MidiExportNote {
+  step: number;
+  note: number;
+  velocity: number; // 1-127
+}
+
+export interface MidiExportTempo {
+  step: number;
+  bpm: number;
+}
+
+export interface MidiExportOptions {
+  bpm: number;
+  tempos?: MidiExportTempo[]; // Tempo changes after the start; ramps are written as one change per step
+  lengthInSteps: number;
+  notes: MidiExportNote[];
+  sections?: string[]; // Section name per step; a marker is written wherever it changes
+  trackName?: string;
+  meter?: Meter; // Decides the step length in ticks and the time signature written; 4/4 16ths by default
+}
+
+// Writes a Type 0 Standard MIDI File with every note on the GM drum channel
+export const writeMidiFile = ({
+  bpm,
+  tempos = [],
+  lengthInSteps,
+  notes,
+  sections,
+  trackName,
+  meter = DEFAULT_METER
+}: MidiExportOptions): Uint8Array => {
+  const events: TimedEvent[] = [];
+  const ticksPerStep = EXPORT_TICKS_PER_QUARTER / getStepsPerQuarter(meter);
+
+  if (trackName) {
+    events.push({ tick: 0, order: 0, data: metaEvent(0x03, encodeText(trackName)) });
+  }
+
+  [{ step: 0, bpm }, ...tempos].forEach(tempo => {
+    const microsecondsPerQuarter = Math.round(60000000 / tempo.bpm);
+    events.push({
+      tick: tempo.step * ticksPerStep,
+      order: 0,
+      data: metaEvent(0x51, [
+        (microsecondsPerQuarter >> 16) & 0xff,
+        (microsecondsPerQuarter >> 8) & 0xff,
+        microsecondsPerQuarter & 0xff
+      ])
+    });
+  });
+  // Numerator, denominator as a power of two, MIDI clocks per beat, 8 32nd notes per quarter
+  events.push({
+    tick: 0,
+    order: 0,
+    data: metaEvent(0x58, [meter.numerator, Math.log2(meter.denominator), (24 * 4) / meter.denominator, 8])
+  });
+
+  if (sections) {
+    let previousSection = '';
+    sections.slice(0, lengthInSteps).forEach((section, step) => {
+      if (section && section !== previousSection) {
+        events.push({ tick: step * ticksPerStep, order: 0, data: metaEvent(0x06, encodeText(section)) });
+      }
+      previousSection = section;
+    });
+  }
+
+  // Drum hits are one-shots, so each note is held for half a step
+  const noteLength = ticksPerStep / 2;
+  notes.forEach(({ step, note, velocity }) => {
+    const tick = step * ticksPerStep;
+    const clampedVelocity = Math.max(1, Math.min(127, Math.round(velocity)));
+    events.push({ tick, order: 2, data: [0x90 | GM_DRUM_CHANNEL, note, clampedVelocity] });
+    events.push({ tick: tick + noteLength, order: 1, data: [0x80 | GM_DRUM_CHANNEL, note, 0] });
+  });
+
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  const trackData: number[] = [];
+  let previousTick = 0;
+  events.forEach(event => {
+    trackData.push(...encodeVariableLength(event.tick - previousTick), ...event.data);
+    previousTick = event.tick;
+  });
+
+  // End of track at the end of the pattern so DAWs keep the full loop length
+  const endTick = Math.max(previousTick, lengthInSteps * ticksPerStep);
+  trackData.push(...encodeVariableLength(endTick - previousTick), ...metaEvent(0x2f, []));
+
+  const file = new Uint8Array(14 + 8 + trackData.length);
+  const view = new DataView(file.buffer);
+  file.set(encodeText('MThd'), 0);
+  view.setUint32(4, 6);
+  view.setUint16(8, 0); // Format 0
+  view.setUint16(10, 1); // One track
+  view.setUint16(12, EXPORT_TICKS_PER_QUARTER);
+  file.set(encodeText('MTrk'), 14);
+  view.setUint32(18, trackData.length);
+  file.set(trackData, 22);
+
+  return file;
+};
+
+// Converts a pattern to a GM drum MIDI file, keeping velocities, accents, section markers and the tempo map
+export const exportPatternToMidi = (pattern: DrumPattern, bpm: number, trackName?: string): Uint8Array => {
+  const notes: MidiExportNote[] = [];
+  const tempos: MidiExportTempo[] = [];
+  const startTempo = getPlaybackTempo(pattern, 0, bpm);
+  let previousTempo = startTempo;
+  for (let step = 1; step < pattern.length; step++) {
+    const tempo = getPlaybackTempo(pattern, step, bpm);
+    if (Math.abs(tempo - previousTempo) >= 0.01) {
+      tempos.push({ step, bpm: tempo });
+      previousTempo = tempo;
+    }
+  }
+
+  getTracks(pattern).forEach(([instrument, track]) => {
+    track.slice(0, pattern.length).forEach((note, step) => {
+      if (!note.active) return;
+      const level = Math.min(1, note.velocity * (note.accent ? ACCENT_GAIN : 1));
+      notes.push({ step, note: GM_EXPORT_NOTES[instrument], velocity: level * 127 });
+    });
+  });
+
+  return writeMidiFile({
+    bpm: startTempo,
+    tempos,
+    lengthInSteps: pattern.length,
+    notes,
+    sections: pattern.metadata.sections,
+    trackName,
+    meter: getPatternMeter(pattern)
+  });
+};
@@ -0,0 +1,84 @@
+import { INSTRUMENT_IDS, InstrumentId } from '@/lib/drumPattern';
+
+export type MixerChannelId = InstrumentId | 'metronome' | 'backing';
+
+export const MIXER_CHANNEL_IDS: readonly MixerChannelId[] = [...INSTRUMENT_IDS, 'metronome', 'backing'];
+
+export const MIXER_CHANNEL_LABELS: Record<MixerChannelId, string> = {
+  'Kick': 'Kick',
+  'Snare': 'Snare',
+  'HH Closed': 'Hi-Hat',
+  'HH Open': 'Open Hat',
+  'Tom': 'Tom',
+  'Crash Cymbal': 'Crash',
+  'metronome': 'Metronome',
+  'backing': 'Backing Track',
+};
+
+export interface ChannelSettings {
+  volume: number; // Fader as linear gain, 1 is unity
+  pan: number; // -1 left to 1 right
+  mute: boolean;
+  solo: boolean;
+}
+
+export type MixerSettings = Record<MixerChannelId, ChannelSettings>;
+
+export const MAX_CHANNEL_VOLUME = 1.5;
+
+export const DEFAULT_CHANNEL: ChannelSettings = { volume: 1, pan: 0, mute: false, solo: false };
+
+export const createDefaultMixer = (): MixerSettings =>
+  Object.fromEntries(MIXER_CHANNEL_IDS.map(id => [id, { ...DEFAULT_CHANNEL }])) as MixerSettings;
+
+// Mute always wins; once any channel is soloed only soloed channels are heard
+export const isChannelAudible = (mixer: MixerSettings, id: MixerChannelId): boolean => {
+  const channel = mixer[id];
+  if (channel.mute) return false;
+  const anySolo = MIXER_CHANNEL_IDS.some(other => mixer[other].solo);
+  return !anySolo || channel.solo;
+};
+
+export const getChannelGain = (mixer: MixerSettings, id: MixerChannelId): number =>
+  isChannelAudible(mixer, id) ? mixer[id].volume : 0;
+
+export const formatChannelVolume = (volume: number): string =>
+  volume <= 0 ? '-∞ dB' : `${(20 * Math.log10(volume)).toFixed(1)} dB`;
+
+interface MixerChannelNodes {
+  input: GainNode; // Voices of the channel connect here
+  panner: StereoPannerNode;
+}
+
+// Channel strips summed into a master bus: input gain (fader, mute, solo) -> pan -> master -> destination
+export interface MixerGraph {
+  master: GainNode;
+  channels: Record<MixerChannelId, MixerChannelNodes>;
+}
+
+export const createMixerGraph = (context: BaseAudioContext, destination: AudioNode = context.destination): MixerGraph => {
+  const master = context.createGain();
+  master.connect(destination);
+
+  const channels = {} as Record<MixerChannelId, MixerChannelNodes>;
+  MIXER_CHANNEL_IDS.forEach(id => {
+    const input = context.createGain();
+    const panner = context.createStereoPanner();
+    input.connect(panner);
+    panner.connect(master);
+    channels[id] = { input, panner };
+  });
+
+  return { master, channels };
+};
+
+// Short glide so fader moves and mutes do not click
+const MIXER_SMOOTHING_SECONDS = 0.01;
+
+export const applyMixerSettings = (graph: MixerGraph, mixer: MixerSettings, time: number) => {
+  MIXER_CHANNEL_IDS.forEach(id => {
+    const { input, panner } = graph.channels[id];
+    input.gain.setTargetAtTime(getChannelGain(mixer, id), time, MIXER_SMOOTHING_SECONDS);
+    panner.pan.setTargetAtTime(mixer[id].pan, time, MIXER_SMOOTHING_SECONDS);
+  });
+};
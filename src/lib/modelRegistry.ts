@@ -0,0 +1,58 @@
+import { DetectedDrumType } from '@/lib/onsetDetection';
+
+export type LocalModelFormat = 'tfjs-layers' | 'tfjs-graph' | 'onnx';
+
+// What the model is fed for each onset
+export type LocalModelInput =
+  | { kind: 'mfcc'; coefficients: number } // The listener's MFCCs, taken at sampleRate
+  | { kind: 'waveform'; samples: number; captureSeconds: number }; // Raw audio resampled to sampleRate; the captureSeconds after the onset, padded with silence to samples
+
+// A model that can be dropped into public/models/<directory> for the drum listener to use
+export interface LocalModelEntry {
+  directory: string;
+  name: string;
+  format: LocalModelFormat;
+  file: string; // The .json topology for TF.js, the .onnx file for ONNX
+  input: LocalModelInput;
+  sampleRate: number;
+  labels?: string[]; // The model's outputs in order; when left out, read from id2label in config.json next to the model
+  drumLabels: Record<string, DetectedDrumType>; // Labels that count as a drum; the rest are ignored
+  outputs: 'probabilities' | 'logits';
+  minConfidence: number; // Weakest drum score that counts as a hit
+}
+
+// Tried in order; the first one whose files are present is used
+export const LOCAL_MODELS: LocalModelEntry[] = [
+  {
+    // A classifier trained on the System Learning page, exported with model.save('downloads://drum-classifier'),
+    // which writes drum-classifier.json and drum-classifier.weights.bin
+    directory: 'drum-classifier',
+    name: 'Drum classifier',
+    format: 'tfjs-layers',
+    file: 'drum-classifier.json',
+    input: { kind: 'mfcc', coefficients: 13 },
+    sampleRate: 44100,
+    labels: ['kick', 'snare', 'hihat', 'openhat'],
+    drumLabels: { kick: 'kick', snare: 'snare', hihat: 'hihat', openhat: 'openhat' },
+    outputs: 'probabilities',
+    minConfidence: 0.8,
+  },
+  {
+    // AudioSet's 521 classes, scored on 0.975 s of 16 kHz audio
+    directory: 'yamnet',
+    name: 'YAMNet',
+    format: 'onnx',
+    file: 'model.onnx',
+    input: { kind: 'waveform', samples: 15600, captureSeconds: 0.25 },
+    sampleRate: 16000,
+    drumLabels: {
+      'Bass drum': 'kick',
+      'Snare drum': 'snare',
+      'Rimshot': 'snare',
+      'Hi-hat': 'hihat',
+      'Cymbal': 'openhat',
+    },
+    outputs: 'probabilities',
+    minConfidence: 0.3,
+  },
+];
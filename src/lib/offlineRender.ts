@@ -0,0 +1,132 @@
+import { DrumNote, DrumPattern, InstrumentId } from '@/lib/drumPattern';
+import { ResolvedKitNote } from '@/lib/drumKit';
+import { BACKING_TRACK_GAIN } from '@/lib/backingTrack';
+import { playDrumHit, playMetronomeClick } from '@/lib/drumVoice';
+import { GrooveSettings, getGrooveHits } from '@/lib/groove';
+import { getPatternMeter, getStepLevel } from '@/lib/meter';
+import { MixerSettings, applyMixerSettings, createMixerGraph } from '@/lib/mixer';
+import { getStepTimes } from '@/lib/tempoMap';
+import { createVoiceManager } from '@/lib/voiceManager';
+import { TimeStretchQuality, canTimeStretch, createTimeStretchPlayer, loadTimeStretchWorklet } from '@/lib/timeStretch';
+
+export const RENDER_SAMPLE_RATE = 44100;
+// Room after the last step for cymbals and the backing track to ring out
+export const RENDER_TAIL_SECONDS = 2;
+// Keeps a mistyped loop count from allocating gigabytes
+export const MAX_RENDER_SECONDS = 15 * 60;
+export interface BackingTrackRender {
+  buffer: AudioBuffer;
+  playbackRate: number;
+  position: number; // Seconds into the track that line up with step 0
+  loop: boolean;
+  timeStretchQuality?: TimeStretchQuality; // Keep the pitch when the rate is not 1
+}
+
+export interface OfflineRenderOptions {
+  pattern: DrumPattern;
+  bpm: number;
+  loops: number;
+  duration?: number; // Cut the render short of the last loop, in seconds
+  groove: GrooveSettings;
+  mixer: MixerSettings;
+  // Called once per render for a resolver with its own round-robin cursor, so the same pattern always renders the same
+  createNoteResolver: () => (instrument: InstrumentId, note: DrumNote) => ResolvedKitNote | null;
+  getChokeGroup: (instrument: InstrumentId) => string | null;
+  metronome: boolean;
+  backing?: BackingTrackRender;
+  sampleRate?: number;
+}
+
+// Seconds of music a render covers, before the tail
+export const getRenderLength = (pattern: DrumPattern, bpm: number, loops: number, duration?: number): number => {
+  const length = getStepTimes(pattern, bpm)[pattern.length] * loops;
+  return Math.min(duration ?? length, length, MAX_RENDER_SECONDS);
+};
+
+// Plays the pattern through the same voices, groove, choke groups and mixer as live playback,
+// only into an OfflineAudioContext that renders faster than real time
+export const renderPatternOffline = async ({
+  pattern,
+  bpm,
+  loops,
+  duration,
+  groove,
+  mixer,
+  createNoteResolver,
+  getChokeGroup,
+  metronome,
+  backing,
+  // The time-stretch worklet reads the track as is, so a render with one runs at its rate
+  sampleRate = backing?.buffer.sampleRate ?? RENDER_SAMPLE_RATE
+}: OfflineRenderOptions): Promise<AudioBuffer> => {
+  const length = getRenderLength(pattern, bpm, loops, duration);
+  if (length <= 0) throw new Error('Nothing to render');
+
+  const context = new OfflineAudioContext(2, Math.ceil((length + RENDER_TAIL_SECONDS) * sampleRate), sampleRate);
+  const graph = createMixerGraph(context);
+  applyMixerSettings(graph, mixer, 0);
+  const voiceManager = createVoiceManager();
+  const resolveNote = createNoteResolver();
+
+  const stepTimes = getStepTimes(pattern, bpm);
+  const loopLength = stepTimes[pattern.length];
+  const meter = getPatternMeter(pattern);
+
+  for (let loop = 0; loop * loopLength < length; loop++) {
+    for (let step = 0; step < pattern.length; step++) {
+      const time = loop * loopLength + stepTimes[step];
+      if (time >= length) break;
+
+      getGrooveHits(pattern, step, time, bpm, groove, loop).forEach(hit => {
+        const hitTime = Math.max(0, hit.time);
+        const voice = playDrumHit(context, graph.channels[hit.instrument].input, hit.instrument, hit.note, hitTime, resolveNote(hit.instrument, hit.note));
+        if (voice) voiceManager.addVoice(voice, getChokeGroup(hit.instrument), hitTime);
+      });
+
+      const level = getStepLevel(meter, step);
+      if (metronome && (level === 'bar' || level === 'pulse')) {
+        playMetronomeClick(context, graph.channels.metronome.input, time, level === 'bar');
+      }
+    }
+  }
+
+  if (backing) {
+    // Fade out over the tail rather than cutting mid-note
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(BACKING_TRACK_GAIN, 0);
+    gain.gain.setValueAtTime(BACKING_TRACK_GAIN, length);
+    gain.gain.linearRampToValueAtTime(0, length + RENDER_TAIL_SECONDS);
+    gain.connect(graph.channels.backing.input);
+
+    const startTime = Math.max(0, -backing.position) / backing.playbackRate;
+    const position = Math.max(0, backing.position);
+    let isStretched = false;
+
+    if (backing.timeStretchQuality && backing.playbackRate !== 1 && canTimeStretch(context, backing.buffer)) {
+      try {
+        await loadTimeStretchWorklet(context);
+        const player = createTimeStretchPlayer(context, backing.buffer, backing.timeStretchQuality, {
+          time: startTime,
+          position,
+          rate: backing.playbackRate,
+          loop: backing.loop
+        });
+        player.node.connect(gain);
+        isStretched = true;
+      } catch (error) {
+        console.warn('Time-stretch unavailable, rendering the backing track with its pitch shifted:', error);
+      }
+    }
+
+    if (!isStretched) {
+      const source = context.createBufferSource();
+      source.buffer = backing.buffer;
+      source.loop = backing.loop;
+      source.playbackRate.setValueAtTime(backing.playbackRate, 0);
+      source.connect(gain);
+      source.start(startTime, position);
+    }
+  }
+
+  return context.startRendering();
+};
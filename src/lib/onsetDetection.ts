@@ -0,0 +1,80 @@
+// Drum listener analysis in public/worklets/drum-listener-processor.js: spectral-flux onset detection (how much
+// louder each frequency got since the previous frame, with peaks picked against a threshold that follows the
+// recent level) and the features of the audio after each onset, all off the main thread
+
+export type DetectedDrumType = 'kick' | 'snare' | 'hihat' | 'openhat';
+
+// Shortest gap between two hits of the same drum; anything closer is the ring of the first one.
+// Hats are short enough to allow fast 16ths and 32nds, open hats and kicks ring on for longer
+export const DEFAULT_MIN_INTER_ONSET_MS: Record<DetectedDrumType, number> = {
+  kick: 80,
+  snare: 70,
+  hihat: 35,
+  openhat: 90,
+};
+
+// Passed to the processor once, as processorOptions; anything left out keeps the processor's default.
+// The defaults give ~3 ms frames at 44.1 kHz: 1024-sample spectra every 128 samples
+export interface OnsetDetectorOptions {
+  frameSize?: number; // Samples per spectrum, a power of two
+  hopSize?: number; // Samples between frames; sets the time resolution
+  thresholdFrames?: number; // Frames of flux the adaptive threshold looks back over
+  thresholdMultiplier?: number; // How far above the recent median a peak has to rise
+  thresholdOffset?: number; // Flux floor, so silence and room noise never count
+  peakFrames?: number; // Frames either side a peak must be the largest over
+  minInterval?: number; // Seconds within which peaks are one attack, dated at the strongest of them
+  featureWindow?: number; // Samples after an onset its features are taken from, a power of two
+  featurePreroll?: number; // Seconds before the onset the window starts, so the very start of the attack is in it
+  onsetSamples?: number; // Raw samples from the window's start to send with each onset, for models that take audio
+  levelInterval?: number; // Seconds between input level reports
+}
+
+export interface OnsetFeatures {
+  mfcc: number[];
+  spectralCentroid: number; // Hz
+  spectralRolloff: number; // Hz below which 99% of the spectrum's amplitude lies
+  zcr: number; // Zero crossings per sample
+  energy: number;
+  rms: number;
+}
+
+// Messages from the processor; times are on the AudioContext clock
+export type DrumListenerMessage =
+  | { type: 'onset'; time: number; strength: number; features: OnsetFeatures; samples?: Float32Array }
+  | { type: 'level'; time: number; rms: number }
+  | { type: 'flushed' };
+
+const DRUM_LISTENER_PROCESSOR = 'drum-listener-processor';
+const DRUM_LISTENER_MODULE_URL = `${import.meta.env.BASE_URL || '/'}worklets/${DRUM_LISTENER_PROCESSOR}.js`;
+
+// The module is added once per context
+const workletModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+export const loadDrumListenerWorklet = (context: BaseAudioContext): Promise<void> => {
+  if (!context.audioWorklet) return Promise.reject(new Error('AudioWorklet is not supported'));
+
+  let loading = workletModules.get(context);
+  if (!loading) {
+    loading = context.audioWorklet.addModule(DRUM_LISTENER_MODULE_URL);
+    loading.catch(() => workletModules.delete(context));
+    workletModules.set(context, loading);
+  }
+  return loading;
+};
+
+// Analyses whatever is connected to it; produces no audio. Call loadDrumListenerWorklet first
+export const createDrumListenerNode = (
+  context: BaseAudioContext,
+  onMessage: (message: DrumListenerMessage) => void,
+  options: OnsetDetectorOptions = {}
+): AudioWorkletNode => {
+  const node = new AudioWorkletNode(context, DRUM_LISTENER_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: options,
+  });
+  node.port.onmessage = event => onMessage(event.data);
+  return node;
+};
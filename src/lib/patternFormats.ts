@@ -0,0 +1,209 @@
+import { DrumPattern } from '@/lib/drumPattern';
+import {
+  ParseDiagnostic,
+  ParsedPattern,
+  parseAdvancedCountCSV,
+  parseCountCSV,
+  parseCountNotation,
+  parseFixedColumnNotation,
+  parseOffsetCountCSV,
+  parseTimedCSV
+} from '@/lib/patternParsers';
+
+export type PatternFormat =
+  | 'count-advanced'
+  | 'count-offset'
+  | 'count'
+  | 'part-offset'
+  | 'time'
+  | 'bar-notation'
+  | 'fixed-notation'
+  | 'midi';
+
+export const PATTERN_FORMAT_LABELS: Record<PatternFormat, string> = {
+  'count-advanced': 'Count CSV (16ths or triplets, two instruments)',
+  'count-offset': 'Count + offset CSV',
+  'count': 'Count CSV (8ths)',
+  'part-offset': 'Part / offset CSV',
+  'time': 'Time-based CSV',
+  'bar-notation': 'Bar notation text',
+  'fixed-notation': 'Bar notation text (fixed columns)',
+  'midi': 'Standard MIDI File',
+};
+
+// File types the pattern picker accepts
+export const PATTERN_FILE_ACCEPT = '.csv,.txt,.mid,.midi';
+
+export const isMidiFileName = (fileName: string): boolean =>
+  /\.midi?$/i.test(fileName);
+
+// What a detector saw in the file; confidence runs from 0 (not this format) to 1 (certain)
+export interface FormatDetection {
+  confidence: number;
+  reason: string;
+}
+
+export interface PatternParser {
+  format: PatternFormat;
+  detect: (text: string, fileName: string) => FormatDetection;
+  parse: (text: string) => ParsedPattern;
+}
+
+export interface FormatCandidate extends FormatDetection {
+  format: PatternFormat;
+}
+
+export interface PatternParseResult {
+  pattern: DrumPattern;
+  format: PatternFormat;
+  confidence: number;
+  reason: string;
+  candidates: FormatCandidate[]; // Every registered format, best match first
+  diagnostics: ParseDiagnostic[];
+}
+
+// Detections below this are treated as "not this format"
+export const MIN_FORMAT_CONFIDENCE = 0.5;
+
+const getHeaderLine = (text: string): string =>
+  text.trim().split('\n')[0]?.trim() || '';
+
+const noMatch = (reason: string): FormatDetection => ({ confidence: 0, reason });
+
+const patternParsers: PatternParser[] = [
+  {
+    format: 'count-advanced',
+    detect: text => {
+      const header = getHeaderLine(text);
+      if (!header.includes('Count')) return noMatch('No "Count" column');
+      if (!header.includes('Instrument 1') || !header.includes('Instrument 2')) {
+        return noMatch('No "Instrument 1" and "Instrument 2" columns');
+      }
+      return { confidence: 0.95, reason: 'Header has "Count", "Instrument 1" and "Instrument 2" columns' };
+    },
+    parse: parseAdvancedCountCSV,
+  },
+  {
+    format: 'count-offset',
+    detect: text => {
+      const header = getHeaderLine(text);
+      if (!header.includes('Count') || !header.includes('Offset')) return noMatch('No "Count" and "Offset" columns');
+      if (!header.includes('Instrument')) return noMatch('No "Instrument" column');
+      return { confidence: 0.9, reason: 'Header has "Count", "Offset" and "Instrument" columns' };
+    },
+    parse: parseOffsetCountCSV,
+  },
+  {
+    format: 'count',
+    detect: text => {
+      const header = getHeaderLine(text);
+      if (!header.includes('Count')) return noMatch('No "Count" column');
+      if (header.includes('Offset')) return noMatch('Has an "Offset" column');
+      return header.includes('Instrument')
+        ? { confidence: 0.85, reason: 'Header has "Count" and "Instrument" columns without offsets' }
+        : { confidence: 0.55, reason: 'Header has a "Count" column but no "Instrument" column' };
+    },
+    parse: parseCountCSV,
+  },
+  {
+    format: 'part-offset',
+    detect: text => {
+      const header = getHeaderLine(text);
+      if (header.startsWith('Part,')) return { confidence: 0.9, reason: 'Header starts with "Part,"' };
+      if (header.includes('Drum Component')) return { confidence: 0.7, reason: 'Header has a "Drum Component" column' };
+      return noMatch('No "Part" or "Drum Component" column');
+    },
+    parse: parseTimedCSV,
+  },
+  {
+    format: 'time',
+    detect: text => {
+      const header = getHeaderLine(text);
+      if (!header.startsWith('Time')) return noMatch('Header does not start with "Time"');
+      return header.includes('Instrument')
+        ? { confidence: 0.9, reason: 'Header has "Time" and "Instrument" columns' }
+        : { confidence: 0.6, reason: 'Header starts with "Time" but has no "Instrument" column' };
+    },
+    parse: parseTimedCSV,
+  },
+  {
+    format: 'bar-notation',
+    detect: text => {
+      if (!getHeaderLine(text).startsWith('Bar ')) return noMatch('First line is not a "Bar N:" marker');
+      return /^Count:/m.test(text)
+        ? { confidence: 0.95, reason: '"Bar N:" blocks with "Count:" lines to align hits against' }
+        : noMatch('No "Count:" lines');
+    },
+    parse: parseCountNotation,
+  },
+  {
+    format: 'fixed-notation',
+    detect: text => {
+      if (!getHeaderLine(text).startsWith('Bar ')) return noMatch('First line is not a "Bar N:" marker');
+      return /^Count:/m.test(text)
+        ? { confidence: 0.3, reason: '"Bar N:" blocks, but "Count:" lines suggest aligned notation' }
+        : { confidence: 0.8, reason: '"Bar N:" blocks without "Count:" lines, read at fixed columns' };
+    },
+    parse: parseFixedColumnNotation,
+  },
+];
+
+// Add a format without touching the built-in ones; a later registration replaces one with the same id
+export const registerPatternParser = (parser: PatternParser) => {
+  const index = patternParsers.findIndex(existing => existing.format === parser.format);
+  if (index >= 0) {
+    patternParsers[index] = parser;
+  } else {
+    patternParsers.push(parser);
+  }
+};
+
+// Ask every registered detector about the text, best match first
+export const rankPatternFormats = (text: string, fileName = ''): FormatCandidate[] =>
+  patternParsers
+    .map(parser => ({ format: parser.format, ...parser.detect(text, fileName) }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+// Sniff the format of a pattern file from its name and contents
+export const detectPatternFormat = (content: string, fileName = ''): PatternFormat | null => {
+  if (isMidiFileName(fileName) || content.startsWith('MThd')) return 'midi';
+
+  const [best] = rankPatternFormats(content, fileName);
+  return best && best.confidence >= MIN_FORMAT_CONFIDENCE ? best.format : null;
+};
+
+// Single entry point for text pattern files: detect the format, parse, and report why it was chosen
+export const parsePattern = (text: string, fileName = ''): PatternParseResult => {
+  const name = fileName || 'file';
+  if (isMidiFileName(fileName) || text.startsWith('MThd')) {
+    throw new Error(`${name} is a MIDI file and must be loaded as binary data`);
+  }
+
+  const candidates = rankPatternFormats(text, fileName);
+  const [best] = candidates;
+
+  if (!best || best.confidence < MIN_FORMAT_CONFIDENCE) {
+    const tried = candidates.map(({ format, reason }) => `${PATTERN_FORMAT_LABELS[format]}: ${reason}`).join('; ');
+    throw new Error(`Unrecognised pattern format in ${name}. First line: "${getHeaderLine(text) || '(empty)'}". Tried ${tried}`);
+  }
+
+  const parser = patternParsers.find(({ format }) => format === best.format)!;
+  const { pattern, diagnostics } = parser.parse(text);
+  return {
+    pattern,
+    diagnostics,
+    format: best.format,
+    confidence: best.confidence,
+    reason: best.reason,
+    candidates,
+  };
+};
+
+// "come_as_you_are_drums_1-2.csv" -> "Come As You Are Drums 1-2"
+export const titleFromFileName = (fileName: string): string =>
+  fileName
+    .replace(/\.[^.]+$/, '')
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
@@ -0,0 +1,932 @@
+import {
+  DrumNote,
+  DrumPattern,
+  GHOST_VELOCITY,
+  InstrumentId,
+  INSTRUMENT_IDS,
+  Meter,
+  PatternMetadata,
+  TempoEvent,
+  clampVelocity,
+  createEmptyPattern,
+  createNote,
+  patternFromFlags
+} from '@/lib/drumPattern';
+import {
+  DEFAULT_METER,
+  EIGHTH_NOTE_METER,
+  getStepsPerBar,
+  getSubdivisionLabels,
+  parseTimeSignature
+} from '@/lib/meter';
+import { normalizeTempoMap, parseTempoCell } from '@/lib/tempoMap';
+
+// Steps per beat the advanced count format can be written in, most common first
+const COUNT_GRIDS = [4, 6, 3, 2, 1];
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+// A problem found while parsing; errors drop data, warnings keep it with a best guess
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  line: number; // 1-based line in the file
+  column?: number; // 1-based character column
+  text: string; // The offending text
+  message: string;
+  suggestion?: string;
+  step?: number; // Pattern step the problem affects, when known
+}
+
+export interface ParsedPattern {
+  pattern: DrumPattern;
+  diagnostics: ParseDiagnostic[];
+}
+
+const createDiagnostics = () => {
+  const diagnostics: ParseDiagnostic[] = [];
+  const add = (severity: DiagnosticSeverity) => (diagnostic: Omit<ParseDiagnostic, 'severity'>) => {
+    diagnostics.push({ severity, ...diagnostic });
+  };
+  return { diagnostics, error: add('error'), warning: add('warning') };
+};
+
+type Diagnostics = ReturnType<typeof createDiagnostics>;
+
+// Line number of the first non-blank line, since the CSV parsers work on trimmed content
+const getFirstLineNumber = (content: string): number =>
+  1 + (content.match(/^\s*/)![0].match(/\n/g)?.length || 0);
+
+// 1-based character column where a comma-separated field starts
+const getFieldColumn = (line: string, field: number): number =>
+  line.split(',').slice(0, field).reduce((column, cell) => column + cell.length + 1, 1);
+
+interface CSVDrumRow {
+  line: number;
+  part?: string;
+  offset?: number;
+  time?: number;
+  duration: number;
+  drumComponent?: string;
+  instrument?: string;
+}
+
+type InstrumentFlags = Partial<Record<InstrumentId, boolean[]>>;
+
+// One on/off array per instrument, all of the given length
+const createInstrumentFlags = (length: number): Record<InstrumentId, boolean[]> => {
+  const flags = {} as Record<InstrumentId, boolean[]>;
+  INSTRUMENT_IDS.forEach(instrument => {
+    flags[instrument] = new Array(length).fill(false);
+  });
+  return flags;
+};
+
+// Instrument names that mean a ghosted snare rather than an instrument of their own
+const ghostNoteNames = ['ghost note', 'ghost'];
+
+// Index of a named column in a CSV header row, or -1 when the file has no such column
+const findColumn = (headerLine: string, ...names: string[]): number => {
+  const headers = headerLine.split(',').map(header => header.trim().toLowerCase());
+  return headers.findIndex(header => names.includes(header));
+};
+
+// Optional velocity cell: 0-1, MIDI-style 0-127, or "accent" / "ghost"; null when unreadable
+const parseVelocityCell = (cell: string | undefined): Partial<DrumNote> | null => {
+  const value = cell?.trim().toLowerCase();
+  if (!value) return {};
+  if (value === 'accent' || value === '>') return { accent: true };
+  if (value === 'ghost' || value === '()') return { ghost: true, velocity: GHOST_VELOCITY };
+
+  const numeric = parseFloat(value);
+  if (isNaN(numeric)) return null;
+  return { velocity: clampVelocity(numeric > 1 ? numeric / 127 : numeric) };
+};
+
+// Map CSV drum components to our instrument ids
+const drumComponentMap: Record<string, InstrumentId> = {
+  'F': 'Kick',           // F might be kick/bass drum
+  'C': 'Snare',          // C might be snare
+  'E': 'HH Closed',      // E might be hihat
+  'D': 'HH Closed',      // D might be hihat variation
+  'A': 'HH Open',        // A might be open hihat
+  'Bass Drum': 'Kick',   // Full name mapping
+  'Snare Drum': 'Snare', // Full name mapping
+  'Hi-Hat': 'HH Closed', // Full name mapping
+  'Open Hi-Hat': 'HH Open', // Full name mapping
+  'Tom-tom': 'Tom',      // Tom mapping
+  'Tom': 'Tom',          // Tom mapping
+  'Crash Cymbal': 'Crash Cymbal', // Crash cymbal mapping
+  'Crash': 'Crash Cymbal' // Crash mapping
+};
+
+const parseCSVLine = (line: string, lineNumber: number): CSVDrumRow | null => {
+  const parts = line.split(',');
+  if (parts.length < 3) return null;
+
+  // Handle both formats:
+  // Format 1: Part,Offset (Beat),Duration (Quarter),Drum Component
+  // Format 2: Time (s), Instrument,Duration (Quarter)
+  
+  if (parts.length === 4) {
+    // Original format
+    return {
+      line: lineNumber,
+      part: parts[0].trim(),
+      offset: parseFloat(parts[1].trim()),
+      duration: parseFloat(parts[2].trim()),
+      drumComponent: parts[3].trim()
+    };
+  } else if (parts.length === 3) {
+    // New time-based format
+    return {
+      line: lineNumber,
+      time: parseFloat(parts[0].trim()),
+      instrument: parts[1].trim(),
+      duration: parseFloat(parts[2].trim())
+    };
+  }
+  
+  return null;
+};
+
+const getBeatColumnsFromCountLine = (line: string): number[] => {
+  // Extract the columns of the 8 positions from the Count line: 1 & 2 & 3 & 4 &
+  const match = line.match(/^Count:\s*(.*)$/);
+  if (!match) return [];
+  const notation = match[1];
+  const cols: number[] = [];
+  for (let i = 0; i < notation.length; i++) {
+    const ch = notation[i];
+    if (ch === '1' || ch === '&' || ch === '2' || ch === '3' || ch === '4') {
+      cols.push(i);
+      if (cols.length === 8) break;
+    }
+  }
+  return cols;
+};
+
+const notationInstruments = ['Hi-Hat', 'Snare', 'Kick', 'HH Closed', 'HH Open'];
+const notationHitSymbols = ['●', 'x', 'o'];
+
+// Hits further than this many characters from a count are ambiguous
+const MAX_HIT_DISTANCE = 2;
+
+interface NotationHit {
+  position: number; // Index into the bar's count positions
+  column: number; // 1-based column in the line
+  distance: number; // Characters between the hit and its count
+}
+
+const parseInstrumentLine = (line: string, beatColumns: number[]): { instrument: InstrumentId; hits: NotationHit[] } | null => {
+  // Parse lines like "Snare:      ●                    ●               "
+  // Also parse "HH Closed:" and "HH Open:" lines
+  const match = line.match(/^(Hi-Hat|Snare|Kick|HH Closed|HH Open):\s*(.*)$/);
+  if (!match) return null;
+
+  const [, instrument, notation] = match;
+  const notationStart = line.length - notation.length;
+  const hits = new Map<number, NotationHit>();
+
+  // Map hit characters to nearest beat columns derived from the matching Count line
+  for (let i = 0; i < notation.length; i++) {
+    const ch = notation[i];
+    if (notationHitSymbols.includes(ch)) {
+      let closestPos = 0;
+      let minDistance = Math.abs(i - beatColumns[0]);
+      for (let j = 1; j < beatColumns.length; j++) {
+        const distance = Math.abs(i - beatColumns[j]);
+        if (distance < minDistance) {
+          minDistance = distance;
+          closestPos = j;
+        }
+      }
+      if (!hits.has(closestPos)) {
+        hits.set(closestPos, { position: closestPos, column: notationStart + i + 1, distance: minDistance });
+      }
+    }
+  }
+
+  const instrumentId: InstrumentId = instrument === 'Hi-Hat' ? 'HH Closed' : instrument as InstrumentId;
+  return { instrument: instrumentId, hits: Array.from(hits.values()).sort((a, b) => a.position - b.position) };
+};
+
+const convertToPattern = (csvData: CSVDrumRow[]): DrumPattern => {
+  // Determine if we're using time-based or offset-based data
+  const isTimeBased = csvData.some(row => row.time !== undefined);
+  
+  let minTime = 0;
+  let maxTime = 0;
+  
+  if (isTimeBased) {
+    // Time-based format (seconds)
+    const times = csvData.map(row => row.time!).filter(t => !isNaN(t));
+    minTime = Math.min(...times);
+    maxTime = Math.max(...times);
+  } else {
+    // Offset-based format (beats)
+    const offsets = csvData.map(row => row.offset!).filter(o => !isNaN(o));
+    minTime = Math.min(...offsets);
+    maxTime = Math.max(...offsets);
+  }
+  
+  const timeRange = maxTime - minTime;
+  
+  // Convert to steps - for time-based, assume 120 BPM (0.5s per beat, 4 steps per beat = 8 steps per second)
+  // For offset-based, 2 steps per beat (8 steps per bar / 4 beats = 2 steps per beat)
+  const stepsPerUnit = isTimeBased ? 8 : 2;
+  const patternLength = Math.max(16, Math.ceil((timeRange + 1) * stepsPerUnit));
+  
+  const flags: InstrumentFlags = {};
+
+  // Initialize arrays for instruments found in data
+  csvData.forEach(row => {
+    const componentName = row.drumComponent || row.instrument || '';
+    const drumType = drumComponentMap[componentName];
+    if (drumType && !flags[drumType]) {
+      flags[drumType] = new Array(patternLength).fill(false);
+    }
+  });
+
+  csvData.forEach(row => {
+    // Determine drum type from either drumComponent or instrument field
+    const componentName = row.drumComponent || row.instrument || '';
+    const drumType = drumComponentMap[componentName];
+    
+    if (drumType && flags[drumType]) {
+      let stepIndex: number;
+      
+      if (isTimeBased && row.time !== undefined) {
+        // Time-based mapping (8 steps per second at 120 BPM)
+        stepIndex = Math.round((row.time - minTime) * stepsPerUnit);
+      } else if (row.offset !== undefined) {
+        // Offset-based mapping (2 steps per beat, 8 steps per bar)
+        stepIndex = Math.round((row.offset - minTime) * stepsPerUnit);
+      } else {
+        return; // Skip invalid rows
+      }
+      
+      if (stepIndex >= 0 && stepIndex < patternLength) {
+        flags[drumType][stepIndex] = true;
+      }
+    }
+  });
+
+  return patternFromFlags(flags, patternLength, isTimeBased ? {} : { meter: EIGHTH_NOTE_METER });
+};
+
+// Part,Offset (Beat),Duration,Drum Component or Time (s),Instrument,Duration rows
+export const parseTimedCSV = (csvContent: string): ParsedPattern => {
+  const diagnostics = createDiagnostics();
+  const lines = csvContent.split('\n');
+  const headerIndex = lines.findIndex(line => line.trim());
+  
+  const csvRows: CSVDrumRow[] = [];
+  
+  // Skip header row
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || index <= headerIndex) return;
+
+    const lineNumber = index + 1;
+    const row = parseCSVLine(line, lineNumber);
+    if (!row) {
+      diagnostics.error({
+        line: lineNumber,
+        column: 1,
+        text: line,
+        message: `Expected 3 or 4 columns, found ${line.split(',').length}; the row was skipped`,
+        suggestion: 'Rows look like "Voice,1.5,0.5,Snare Drum" or "1.5,Snare Drum,0.5"'
+      });
+      return;
+    }
+
+    // Accept rows with 'Voice' part or any valid row in new format
+    if (row.part !== undefined && row.part !== 'Voice') return;
+
+    const isTimeBased = row.time !== undefined;
+    const position = isTimeBased ? row.time! : row.offset!;
+    if (isNaN(position)) {
+      const field = isTimeBased ? 0 : 1;
+      diagnostics.error({
+        line: lineNumber,
+        column: getFieldColumn(line, field),
+        text: line.split(',')[field].trim(),
+        message: `${isTimeBased ? 'Time' : 'Offset'} is not a number; the row was skipped`,
+        suggestion: isTimeBased ? 'Times are in seconds, e.g. 1.25' : 'Offsets are in beats, e.g. 1.5'
+      });
+      return;
+    }
+
+    const componentName = row.drumComponent || row.instrument || '';
+    if (!componentName) return;
+    if (!drumComponentMap[componentName]) {
+      diagnostics.warning({
+        line: lineNumber,
+        column: getFieldColumn(line, isTimeBased ? 1 : 3),
+        text: componentName,
+        message: `Unknown drum component "${componentName}"; the hit was skipped`,
+        suggestion: suggestName(componentName, Object.keys(drumComponentMap))
+      });
+      return;
+    }
+
+    csvRows.push(row);
+  });
+
+  if (csvRows.length === 0) {
+    throw new Error('No valid drum data found in CSV');
+  }
+
+  return { pattern: convertToPattern(csvRows), diagnostics: diagnostics.diagnostics };
+};
+
+// "Bar N:" blocks whose hits are aligned under a "Count:" line
+export const parseCountNotation = (notationContent: string): ParsedPattern => {
+  const diagnostics = createDiagnostics();
+  const lines = notationContent.split('\n');
+  let totalBars = 0;
+  let currentBar = 0;
+  
+  // First pass: count bars
+  for (const line of lines) {
+    if (line.startsWith('Bar ')) {
+      totalBars++;
+    }
+  }
+  
+  // Initialize pattern arrays
+  const totalSteps = totalBars * 8; // 8 steps per bar
+  const flags = createInstrumentFlags(totalSteps);
+  
+  // Parse the notation
+  let currentBeatColumns: number[] | null = null;
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const label = line.match(/^([^:]+):/)?.[1].trim();
+
+    if (line.startsWith('Bar ')) {
+      const barMatch = line.match(/Bar (\d+):/);
+      if (barMatch) {
+        currentBar = parseInt(barMatch[1]) - 1; // Convert to 0-based
+        currentBeatColumns = null; // reset for new bar
+      } else {
+        diagnostics.warning({
+          line: lineNumber,
+          column: 1,
+          text: line.trim(),
+          message: 'Bar marker without a bar number; its hits are added to the previous bar',
+          suggestion: `Write it as "Bar ${currentBar + 2}:"`
+        });
+      }
+    } else if (line.startsWith('Count:')) {
+      currentBeatColumns = getBeatColumnsFromCountLine(line);
+      if (currentBeatColumns.length < 8) {
+        diagnostics.error({
+          line: lineNumber,
+          column: 1,
+          text: line.trim(),
+          message: `Count line has ${currentBeatColumns.length} of 8 counts; hits in bar ${currentBar + 1} are ignored`,
+          suggestion: 'Use "Count:      1     &     2     &     3     &     4     &"',
+          step: currentBar * 8
+        });
+      }
+    } else if (label && !notationInstruments.includes(label)) {
+      diagnostics.warning({
+        line: lineNumber,
+        column: 1,
+        text: label,
+        message: `Unknown instrument line "${label}"; it was skipped`,
+        suggestion: suggestName(label, notationInstruments),
+        step: currentBar * 8
+      });
+    } else {
+      const parsed = parseInstrumentLine(line, currentBeatColumns || []);
+      if (!parsed || parsed.hits.length === 0) return;
+
+      if (!currentBeatColumns) {
+        diagnostics.error({
+          line: lineNumber,
+          column: parsed.hits[0].column,
+          text: line.trim(),
+          message: `Hits in bar ${currentBar + 1} have no "Count:" line to align against; they were skipped`,
+          suggestion: 'Add a "Count:" line directly below the bar marker',
+          step: currentBar * 8
+        });
+        return;
+      }
+      if (currentBeatColumns.length < 8) return;
+
+      // Map positions to the correct bar offset
+      for (const hit of parsed.hits) {
+        const stepIndex = currentBar * 8 + hit.position;
+        if (hit.distance > MAX_HIT_DISTANCE) {
+          diagnostics.warning({
+            line: lineNumber,
+            column: hit.column,
+            text: line[hit.column - 1],
+            message: `Hit sits ${hit.distance} characters from the nearest count; it was snapped to step ${stepIndex + 1}`,
+            suggestion: 'Line the hit up under a count in the "Count:" line',
+            step: stepIndex
+          });
+        }
+        if (stepIndex < totalSteps) {
+          flags[parsed.instrument][stepIndex] = true;
+        }
+      }
+    }
+  });
+  
+  return { pattern: patternFromFlags(flags, totalSteps, { meter: EIGHTH_NOTE_METER }), diagnostics: diagnostics.diagnostics };
+};
+
+// "Bar N:" blocks with hits at fixed character columns and no "Count:" line
+export const parseFixedColumnNotation = (notationContent: string): ParsedPattern => {
+  const diagnostics = createDiagnostics();
+  const rawLines = notationContent.split('\n');
+  const lines = rawLines.map(line => line.trim());
+  
+  if (lines.length === 0) {
+    throw new Error('Empty notation file');
+  }
+
+  // Support up to 16 bars * 8 steps = 128 total steps
+  const instrumentData = createInstrumentFlags(128);
+  // Only the first 2 bars reach the drum machine
+  const loadedSteps = 16;
+
+  let currentBar = 0;
+  let currentBarStartStep = 0;
+  let reportedTruncation = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    
+    // Check for bar markers
+    if (line.startsWith('Bar ')) {
+      const barMatch = line.match(/Bar (\d+):/);
+      if (barMatch) {
+        currentBar = parseInt(barMatch[1]) - 1; // Convert to 0-based
+        currentBarStartStep = currentBar * 8; // 8 steps per bar
+      }
+      continue;
+    }
+
+    // Parse instrument lines
+    if (line.startsWith('Hi-Hat:') || line.startsWith('Snare:') || line.startsWith('Kick:')) {
+      const instrumentName = line.split(':')[0].toLowerCase().replace('-', '');
+      const hitPattern = line.substring(line.indexOf(':') + 1);
+      // 1-based column in the untrimmed line where hitPattern starts
+      const hitPatternColumn = rawLines[i].indexOf(':') + 2;
+      
+      // Map instrument names to DrumMachine keys
+      let targetInstrument: InstrumentId | null = null;
+      if (instrumentName === 'hihat') {
+        targetInstrument = 'HH Closed';
+      } else if (instrumentName === 'snare') {
+        targetInstrument = 'Snare';
+      } else if (instrumentName === 'kick') {
+        targetInstrument = 'Kick';
+      }
+
+      if (targetInstrument && currentBarStartStep < 128) {
+        // Parse hits in this bar (8 positions: 1, &, 2, &, 3, &, 4, &)
+        const positions = [7, 13, 19, 25, 31, 37, 43, 49]; // Character positions for each beat
+
+        // Hits between the fixed columns are lost, so point them out
+        for (let charPos = 0; charPos < hitPattern.length; charPos++) {
+          if (notationHitSymbols.includes(hitPattern[charPos]) && !positions.includes(charPos)) {
+            diagnostics.warning({
+              line: i + 1,
+              column: hitPatternColumn + charPos,
+              text: hitPattern[charPos],
+              message: 'Hit is not on one of the 8 fixed beat columns; it was skipped',
+              suggestion: 'Add a "Count:" line so hits are aligned against it instead',
+              step: currentBarStartStep
+            });
+          }
+        }
+        
+        for (let stepInBar = 0; stepInBar < 8 && currentBarStartStep + stepInBar < 128; stepInBar++) {
+          const charPos = positions[stepInBar];
+          if (charPos < hitPattern.length) {
+            const char = hitPattern[charPos];
+            const isHit = char === '●' || char === 'x' || (char === 'o' && instrumentName === 'hihat');
+            if (isHit && currentBarStartStep + stepInBar >= loadedSteps && !reportedTruncation) {
+              reportedTruncation = true;
+              diagnostics.warning({
+                line: i + 1,
+                column: hitPatternColumn + charPos,
+                text: char,
+                message: `Only the first ${loadedSteps / 8} bars of fixed-column notation are loaded; later hits were dropped`,
+                suggestion: 'Add "Count:" lines to load the full file'
+              });
+            }
+            if (char === '●' || char === 'x') {
+              instrumentData[targetInstrument][currentBarStartStep + stepInBar] = true;
+            } else if (char === 'o' && instrumentName === 'hihat') {
+              // Use 'HH Open' for 'o' symbols
+              instrumentData['HH Open'][currentBarStartStep + stepInBar] = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Return only the first 16 steps (2 bars) for the drum machine
+  return { pattern: patternFromFlags(instrumentData, loadedSteps, { meter: EIGHTH_NOTE_METER }), diagnostics: diagnostics.diagnostics };
+};
+
+// Instrument names accepted in CSV files, lower-cased
+const instrumentAliases: Record<string, InstrumentId> = {
+  'kick': 'Kick',
+  'kick drum': 'Kick',
+  'bass drum': 'Kick',
+  'snare': 'Snare',
+  'snare drum': 'Snare',
+  'hi-hat (closed)': 'HH Closed',
+  'hi hat (closed)': 'HH Closed',
+  'hh closed': 'HH Closed',
+  'hihat': 'HH Closed',
+  'closed hat': 'HH Closed',
+  'hi-hat': 'HH Closed',
+  'hi hat': 'HH Closed',
+  'hi-hat (open)': 'HH Open',
+  'hi hat (open)': 'HH Open',
+  'hh open': 'HH Open',
+  'open hat': 'HH Open',
+  'open hihat': 'HH Open',
+  'tom-tom': 'Tom',
+  'tom tom': 'Tom',
+  'tom': 'Tom',
+  // Ghost notes are played on the snare; markHit flags them as ghosted
+  'ghost note': 'Snare',
+  'ghost': 'Snare',
+  'crash cymbal': 'Crash Cymbal',
+  'crash': 'Crash Cymbal',
+  'crash cym': 'Crash Cymbal',
+  'cymbal': 'Crash Cymbal',
+};
+
+const normalizeInstrument = (instrument: string): InstrumentId | null =>
+  instrumentAliases[instrument.toLowerCase().trim()] || null;
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Closest known name for a misspelt one, or the list of instruments when nothing is close
+const suggestName = (name: string, knownNames: string[]): string => {
+  const normalized = name.toLowerCase().trim();
+  const [closest] = knownNames
+    .map(known => ({ known, distance: editDistance(normalized, known.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  if (closest && closest.distance <= Math.max(2, Math.floor(closest.known.length / 3))) {
+    return `Did you mean "${closest.known}"?`;
+  }
+  return `Use one of: ${INSTRUMENT_IDS.join(', ')}`;
+};
+
+// A split CSV data row with enough context to report problems against it
+interface CSVRow {
+  diagnostics: Diagnostics;
+  line: number;
+  text: string;
+  columns: string[];
+}
+
+const splitCSVRow = (diagnostics: Diagnostics, line: number, text: string): CSVRow =>
+  ({ diagnostics, line, text, columns: text.split(',') });
+
+// Report a row with too few columns; returns false so callers can skip it
+const requireColumns = (row: CSVRow, count: number, layout: string): boolean => {
+  if (row.columns.length >= count) return true;
+  row.diagnostics.error({
+    line: row.line,
+    column: 1,
+    text: row.text,
+    message: `Expected at least ${count} columns, found ${row.columns.length}`,
+    suggestion: `Rows in this format look like "${layout}"`
+  });
+  return false;
+};
+
+// Write a hit into the pattern, honouring ghost note names and an optional velocity column
+const markHit = (pattern: DrumPattern, row: CSVRow, stepIndex: number, instrumentField: number, velocityField = -1) => {
+  const instrument = row.columns[instrumentField].trim();
+  const instrumentKey = normalizeInstrument(instrument);
+  const track = instrumentKey && pattern.tracks[instrumentKey];
+  if (!track) {
+    row.diagnostics.warning({
+      line: row.line,
+      column: getFieldColumn(row.text, instrumentField),
+      text: instrument,
+      message: `Unknown instrument "${instrument}"; the hit was skipped`,
+      suggestion: suggestName(instrument, Object.keys(instrumentAliases)),
+      step: stepIndex
+    });
+    return;
+  }
+
+  const velocityCell = velocityField >= 0 ? row.columns[velocityField] : undefined;
+  let velocity = parseVelocityCell(velocityCell);
+  if (!velocity) {
+    row.diagnostics.warning({
+      line: row.line,
+      column: getFieldColumn(row.text, velocityField),
+      text: velocityCell!.trim(),
+      message: `Unreadable velocity "${velocityCell!.trim()}"; the default velocity was used`,
+      suggestion: 'Use 0-1, 0-127, "accent" or "ghost"',
+      step: stepIndex
+    });
+    velocity = {};
+  }
+
+  const isGhost = ghostNoteNames.includes(instrument.toLowerCase());
+  track[stepIndex] = createNote({
+    ...(isGhost ? { ghost: true, velocity: GHOST_VELOCITY } : {}),
+    ...velocity
+  });
+};
+
+// Optional tempo cell: a new tempo from this step on; the same tempo repeated on every row adds nothing
+const readTempoCell = (row: CSVRow, stepIndex: number, tempoField: number, tempoMap: TempoEvent[]) => {
+  const cell = tempoField >= 0 ? row.columns[tempoField]?.trim() : '';
+  if (!cell) return;
+
+  const tempo = parseTempoCell(cell);
+  if (!tempo) {
+    row.diagnostics.warning({
+      line: row.line,
+      column: getFieldColumn(row.text, tempoField),
+      text: cell,
+      message: `Unreadable tempo "${cell}"; the tempo change was skipped`,
+      suggestion: 'Use a BPM such as 120, or "~120" to ramp there from the previous tempo',
+      step: stepIndex
+    });
+    return;
+  }
+
+  const previous = tempoMap[tempoMap.length - 1];
+  if (previous && previous.bpm === tempo.bpm && !tempo.ramp) return;
+  tempoMap.push({ step: stepIndex, ...tempo });
+};
+
+// Count,Offset (Beat),Instrument,Duration: hits placed on a 16th grid by their beat offset
+export const parseOffsetCountCSV = (csvContent: string): ParsedPattern => {
+  const diagnostics = createDiagnostics();
+  const lines = csvContent.trim().split('\n');
+  const headerLine = lines[0];
+  const firstLine = getFirstLineNumber(csvContent);
+
+  let maxOffset = 0;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const columns = line.split(',');
+    if (columns.length >= 2) {
+      const offset = parseFloat(columns[1]); // Use second column (Offset)
+      if (!isNaN(offset)) {
+        maxOffset = Math.max(maxOffset, offset);
+      }
+    }
+  }
+  
+  const stepsPerBeat = 4; // 16th note resolution
+  const patternLength = Math.max(16, Math.ceil((maxOffset + 1) * stepsPerBeat));
+
+  const pattern = createEmptyPattern(patternLength);
+  const velocityColumn = findColumn(headerLine, 'velocity');
+
+  // Parse each line and map to full pattern
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const row = splitCSVRow(diagnostics, firstLine + i, line);
+    if (!requireColumns(row, 3, 'Count,Offset (Beat),Instrument,Duration')) continue;
+
+    const offset = parseFloat(row.columns[1]); // Offset (Beat) column
+    
+    if (isNaN(offset)) {
+      diagnostics.error({
+        line: row.line,
+        column: getFieldColumn(line, 1),
+        text: row.columns[1].trim(),
+        message: `Offset "${row.columns[1].trim()}" is not a number; the row was skipped`,
+        suggestion: 'Offsets are in beats from the start, e.g. 0, 0.5, 1.25'
+      });
+      continue;
+    }
+    
+    const stepIndex = Math.floor(offset * stepsPerBeat);
+    
+    if (stepIndex >= patternLength) continue;
+
+    markHit(pattern, row, stepIndex, 2, velocityColumn);
+  }
+
+  return { pattern, diagnostics: diagnostics.diagnostics };
+};
+
+// Count,Instrument,Duration[,Tempo]: one 8th note step per row
+export const parseCountCSV = (csvContent: string): ParsedPattern => {
+  const diagnostics = createDiagnostics();
+  const lines = csvContent.trim().split('\n');
+  const firstLine = getFirstLineNumber(csvContent);
+  
+  // Count total beats to determine pattern length
+  const totalBeats = lines.length - 1; // Subtract header
+  const stepsPerBar = getStepsPerBar(EIGHTH_NOTE_METER); // 8 positions per bar (1, &, 2, &, 3, &, 4, &)
+  const totalBars = Math.ceil(totalBeats / stepsPerBar);
+  const patternLength = totalBars * stepsPerBar;
+
+  const pattern = createEmptyPattern(patternLength, INSTRUMENT_IDS, { meter: EIGHTH_NOTE_METER });
+  const velocityColumn = findColumn(lines[0], 'velocity');
+  const tempoColumn = findColumn(lines[0], 'tempo', 'bpm');
+  const tempoMap: TempoEvent[] = [];
+
+  // Parse each data line - each line represents a sequential 8th note position
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    // Each line represents a sequential step (8th note)
+    const stepIndex = i - 1; // 0-based step index (excluding header)
+
+    const row = splitCSVRow(diagnostics, firstLine + i, line);
+    if (!requireColumns(row, 3, 'Count,Instrument,Duration')) continue;
+    if (stepIndex >= patternLength) continue;
+
+    readTempoCell(row, stepIndex, tempoColumn, tempoMap);
+
+    // Skip if no instrument specified
+    if (!row.columns[1].trim()) continue;
+
+    markHit(pattern, row, stepIndex, 1, velocityColumn);
+  }
+
+  if (tempoMap.length > 0) {
+    pattern.metadata.tempoMap = normalizeTempoMap(tempoMap);
+  }
+
+  return { pattern, diagnostics: diagnostics.diagnostics };
+};
+
+// Count,Instrument 1,Instrument 2[,Section][,Time Signature][,Tempo]: steps labelled 1/e/&/a, 1/trip/let or 1/la/li/&/la/li
+export const parseAdvancedCountCSV = (csvContent: string): ParsedPattern => {
+  const diagnostics = createDiagnostics();
+  const lines = csvContent.trim().split('\n');
+  const firstLine = getFirstLineNumber(csvContent);
+  const timeSignatureColumn = findColumn(lines[0], 'time signature', 'meter');
+
+  // First pass: parse to find total steps needed, the count syllables used and the time signature
+  let maxBeat = 0;
+  let currentBeatNumber = 0;
+  const syllables = new Set<string>();
+  let timeSignature: Pick<Meter, 'numerator' | 'denominator'> | null = null;
+  
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    
+    const columns = line.split(',');
+    if (columns.length < 1) continue;
+    
+    const count = columns[0].trim();
+    
+    // If it's a number, update current beat number
+    if (!isNaN(Number(count))) {
+      currentBeatNumber = Number(count);
+      maxBeat = Math.max(maxBeat, currentBeatNumber);
+    } else {
+      syllables.add(count);
+    }
+
+    const timeSignatureCell = columns[timeSignatureColumn]?.trim();
+    if (!timeSignature && timeSignatureCell) {
+      timeSignature = parseTimeSignature(timeSignatureCell);
+      if (!timeSignature) {
+        diagnostics.warning({
+          line: firstLine + i,
+          column: getFieldColumn(line, timeSignatureColumn),
+          text: timeSignatureCell,
+          message: `Unreadable time signature "${timeSignatureCell}"`,
+          suggestion: 'Write it as beats/unit, e.g. 3/4, 6/8 or 12/8'
+        });
+      }
+    }
+  }
+
+  // The syllables in the Count column decide how many steps each beat has: "e & a" is 16ths, "trip let" triplets
+  const stepsPerBeat = COUNT_GRIDS.find(steps =>
+    Array.from(syllables).every(syllable => getSubdivisionLabels(steps)!.includes(syllable))
+  ) || DEFAULT_METER.stepsPerBeat;
+  const subdivisionLabels = getSubdivisionLabels(stepsPerBeat)!;
+  const meter: Meter = { ...DEFAULT_METER, ...timeSignature, stepsPerBeat };
+  
+  // Calculate pattern length: one group of steps per beat
+  const patternLength = maxBeat * stepsPerBeat;
+
+  const pattern = createEmptyPattern(patternLength);
+  const metadata: Required<Pick<PatternMetadata, 'subdivisions' | 'offsets' | 'sections' | 'meter'>> = {
+    meter,
+    subdivisions: new Array(patternLength).fill(''),
+    offsets: new Array(patternLength).fill(0),
+    sections: new Array(patternLength).fill('')
+  };
+
+  // Optional columns are located by header name
+  const sectionColumn = findColumn(lines[0], 'section');
+  const velocity1Column = findColumn(lines[0], 'velocity 1', 'velocity');
+  const velocity2Column = findColumn(lines[0], 'velocity 2', 'velocity');
+  const tempoColumn = findColumn(lines[0], 'tempo', 'bpm');
+  const tempoMap: TempoEvent[] = [];
+
+  // Second pass: parse instrument data
+  currentBeatNumber = 0;
+  let lastSubdivision = 0;
+  
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const row = splitCSVRow(diagnostics, firstLine + i, line);
+    if (!requireColumns(row, 2, 'Count,Instrument 1,Instrument 2')) continue;
+
+    const { columns } = row;
+    const count = columns[0].trim();
+    const section = columns[sectionColumn] ? columns[sectionColumn].trim() : '';
+    
+    // If it's a number, update current beat number
+    if (!isNaN(Number(count))) {
+      currentBeatNumber = Number(count);
+    }
+    
+    // Subdivision within the beat: 0 on the beat, then the position of the syllable.
+    // Searching after the previous one tells the two "la"s of "1 la li & la li" apart
+    const subdivisionOffset = isNaN(Number(count))
+      ? subdivisionLabels.indexOf(count, lastSubdivision) + 1
+      : 0;
+    if (subdivisionOffset === 0 && isNaN(Number(count))) {
+      diagnostics.error({
+        line: row.line,
+        column: 1,
+        text: count,
+        message: `Unknown count "${count}"; the row was skipped`,
+        suggestion: `Counts are a beat number followed by ${subdivisionLabels.map(label => `"${label}"`).join(', ') || 'nothing'}`
+      });
+      continue;
+    }
+    lastSubdivision = subdivisionOffset;
+    if (currentBeatNumber === 0) {
+      diagnostics.warning({
+        line: row.line,
+        column: 1,
+        text: count,
+        message: `"${count}" comes before the first beat number; the row was skipped`,
+        suggestion: 'Start the file with beat "1"'
+      });
+      continue;
+    }
+    
+    // Calculate absolute step index: (beatNumber - 1) × steps per beat + subdivisionOffset
+    const stepIndex = (currentBeatNumber - 1) * stepsPerBeat + subdivisionOffset;
+    
+    if (stepIndex >= patternLength) continue;
+
+    // Store subdivision label, section, and offset
+    metadata.subdivisions[stepIndex] = count;
+    metadata.offsets[stepIndex] = stepIndex / stepsPerBeat; // Offset in beats
+    metadata.sections[stepIndex] = section;
+    readTempoCell(row, stepIndex, tempoColumn, tempoMap);
+
+    // Process Instrument 1 column
+    if (columns[1]?.trim()) {
+      markHit(pattern, row, stepIndex, 1, velocity1Column);
+    }
+
+    // Process Instrument 2 column
+    if (columns[2]?.trim()) {
+      markHit(pattern, row, stepIndex, 2, velocity2Column);
+    }
+  }
+
+  return {
+    pattern: { ...pattern, metadata: tempoMap.length > 0 ? { ...metadata, tempoMap: normalizeTempoMap(tempoMap) } : metadata },
+    diagnostics: diagnostics.diagnostics
+  };
+};
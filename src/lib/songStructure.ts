@@ -0,0 +1,112 @@
+import { DrumPattern, getTracks } from '@/lib/drumPattern';
+import { SectionRange, getSectionRanges } from '@/lib/loopRegion';
+import { getTempoAtStep, normalizeTempoMap } from '@/lib/tempoMap';
+
+// Shown for steps before the first named section
+export const UNTITLED_SECTION = 'Untitled';
+
+// Every step belongs to exactly one block: the named sections, plus an unnamed one for any steps before the first
+export const getSongSections = (pattern: DrumPattern): SectionRange[] => {
+  const ranges = getSectionRanges(pattern.metadata.sections, pattern.length);
+  const firstStart = ranges[0]?.start ?? pattern.length;
+  if (firstStart > 0) ranges.unshift({ name: '', start: 0, end: firstStart });
+  return ranges;
+};
+
+// Hits per bucket of steps, scaled so the busiest bucket is 1
+export const getHitDensity = (pattern: DrumPattern, stepsPerBucket: number): number[] => {
+  const counts = new Array(Math.ceil(pattern.length / stepsPerBucket)).fill(0);
+  getTracks(pattern).forEach(([, steps]) => {
+    steps.forEach((note, step) => {
+      if (note?.active) counts[Math.floor(step / stepsPerBucket)] += note.velocity;
+    });
+  });
+  const busiest = Math.max(...counts, 0);
+  return busiest > 0 ? counts.map(count => count / busiest) : counts;
+};
+
+// Section name for every step, so edits never have to reason about blank steps
+const toStepSections = (sections: SectionRange[], length: number): string[] => {
+  const names = new Array(length).fill('');
+  sections.forEach(({ name, start, end }) => names.fill(name, start, end));
+  return names;
+};
+
+const withSections = (pattern: DrumPattern, sections: SectionRange[]): DrumPattern => ({
+  ...pattern,
+  metadata: { ...pattern.metadata, sections: toStepSections(sections, pattern.length) },
+});
+
+export const renameSection = (pattern: DrumPattern, index: number, name: string): DrumPattern => {
+  const sections = getSongSections(pattern);
+  if (!sections[index] || !name.trim()) return pattern;
+  sections[index] = { ...sections[index], name: name.trim() };
+  return withSections(pattern, sections);
+};
+
+// The second half gets a numbered copy of the name, ready to be renamed
+export const splitSection = (pattern: DrumPattern, index: number, atStep: number): DrumPattern => {
+  const sections = getSongSections(pattern);
+  const section = sections[index];
+  if (!section || atStep <= section.start || atStep >= section.end) return pattern;
+
+  sections.splice(index, 1,
+    { ...section, end: atStep },
+    { name: `${section.name || UNTITLED_SECTION} 2`, start: atStep, end: section.end }
+  );
+  return withSections(pattern, sections);
+};
+
+export const mergeSectionWithNext = (pattern: DrumPattern, index: number): DrumPattern => {
+  const sections = getSongSections(pattern);
+  const [section, next] = [sections[index], sections[index + 1]];
+  if (!section || !next) return pattern;
+
+  sections.splice(index, 2, { ...section, end: next.end });
+  return withSections(pattern, sections);
+};
+
+// Swap a section with its neighbour, carrying its notes, count labels and tempo changes along.
+// Offsets stay put: they are positions in the song, not properties of the notes
+export const moveSection = (pattern: DrumPattern, index: number, direction: -1 | 1): DrumPattern => {
+  const sections = getSongSections(pattern);
+  const other = index + direction;
+  if (!sections[index] || !sections[other]) return pattern;
+
+  [sections[index], sections[other]] = [sections[other], sections[index]];
+
+  // order[newStep] = oldStep
+  const order = sections.flatMap(({ start, end }) => Array.from({ length: end - start }, (_, i) => start + i));
+  const newStepOf = new Array(pattern.length);
+  order.forEach((oldStep, newStep) => { newStepOf[oldStep] = newStep; });
+
+  // A blank name would fold the block into whatever now comes before it
+  let start = 0;
+  const moved = sections.map(section => {
+    const length = section.end - section.start;
+    const range = { name: section.name || UNTITLED_SECTION, start, end: start + length };
+    start += length;
+    return range;
+  });
+
+  // Pin the tempo each section starts at, so it keeps playing at it wherever it lands
+  const { subdivisions, tempoMap } = pattern.metadata;
+  const pinnedTempoMap = tempoMap && [
+    ...tempoMap,
+    ...sections
+      .filter(({ start }) => !tempoMap.some(event => event.step === start))
+      .map(({ start }) => ({ step: start, bpm: getTempoAtStep(tempoMap, start) })),
+  ];
+
+  return withSections({
+    ...pattern,
+    tracks: Object.fromEntries(
+      getTracks(pattern).map(([instrument, steps]) => [instrument, order.map(step => steps[step])])
+    ),
+    metadata: {
+      ...pattern.metadata,
+      ...(subdivisions ? { subdivisions: order.map(step => subdivisions[step]) } : {}),
+      ...(pinnedTempoMap ? { tempoMap: normalizeTempoMap(pinnedTempoMap.map(event => ({ ...event, step: newStepOf[event.step] }))) } : {}),
+    },
+  }, moved);
+};
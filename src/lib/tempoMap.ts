@@ -0,0 +1,86 @@
+import { DrumPattern, TempoEvent } from '@/lib/drumPattern';
+import { getPatternMeter, getStepsPerQuarter } from '@/lib/meter';
+
+// Tempo of a pattern without a map, and the range the tempo lane accepts
+export const DEFAULT_TEMPO = 120;
+export const MIN_TEMPO = 30;
+export const MAX_TEMPO = 300;
+
+export const clampTempo = (bpm: number): number =>
+  Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, bpm));
+
+// Events sorted by step, one per step; a later duplicate replaces an earlier one
+export const normalizeTempoMap = (events: TempoEvent[]): TempoEvent[] => {
+  const byStep = new Map<number, TempoEvent>();
+  events.forEach(event => byStep.set(Math.max(0, Math.round(event.step)), { ...event, bpm: clampTempo(event.bpm) }));
+  return Array.from(byStep.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([step, event]) => ({ ...event, step }));
+};
+
+// Tempo written at a step: the last event at or before it, or a point on a ramp towards the next one
+export const getTempoAtStep = (tempoMap: TempoEvent[] | undefined, step: number, fallback = DEFAULT_TEMPO): number => {
+  if (!tempoMap || tempoMap.length === 0) return fallback;
+
+  const nextIndex = tempoMap.findIndex(event => event.step > step);
+  const previous = nextIndex === -1 ? tempoMap[tempoMap.length - 1] : tempoMap[nextIndex - 1];
+  const next = nextIndex === -1 ? undefined : tempoMap[nextIndex];
+
+  // Before the first event the song plays at that event's tempo
+  if (!previous) return next!.bpm;
+  if (!next?.ramp) return previous.bpm;
+
+  const progress = (step - previous.step) / (next.step - previous.step);
+  return previous.bpm + (next.bpm - previous.bpm) * progress;
+};
+
+// Tempo the song starts at, which the BPM control moves the whole map relative to
+export const getBaseTempo = (pattern: DrumPattern): number =>
+  getTempoAtStep(pattern.metadata.tempoMap, 0, pattern.metadata.tempo || DEFAULT_TEMPO);
+
+// Playback tempo at a step: the written tempo scaled by how far the user moved the BPM control
+export const getPlaybackTempo = (pattern: DrumPattern, step: number, bpm: number): number => {
+  const { tempoMap } = pattern.metadata;
+  if (!tempoMap || tempoMap.length === 0) return bpm;
+  return getTempoAtStep(tempoMap, step) * (bpm / getBaseTempo(pattern));
+};
+
+// Seconds from step 0 to the start of every step, plus the end of the pattern as the last entry
+export const getStepTimes = (pattern: DrumPattern, bpm: number): number[] => {
+  const stepsPerQuarter = getStepsPerQuarter(getPatternMeter(pattern));
+  const times = [0];
+  for (let step = 0; step < pattern.length; step++) {
+    times.push(times[step] + 60 / getPlaybackTempo(pattern, step, bpm) / stepsPerQuarter);
+  }
+  return times;
+};
+
+// Step that is sounding a given number of seconds into the pattern
+export const getStepAtTime = (stepTimes: number[], seconds: number): number => {
+  const index = stepTimes.findIndex(time => time > seconds);
+  return index === -1 ? Math.max(0, stepTimes.length - 2) : Math.max(0, index - 1);
+};
+
+// Add or replace the event at a step
+export const setTempoEvent = (pattern: DrumPattern, event: TempoEvent): DrumPattern => ({
+  ...pattern,
+  metadata: {
+    ...pattern.metadata,
+    tempoMap: normalizeTempoMap([...(pattern.metadata.tempoMap || []), event]),
+  },
+});
+
+export const removeTempoEvent = (pattern: DrumPattern, step: number): DrumPattern => {
+  const tempoMap = (pattern.metadata.tempoMap || []).filter(event => event.step !== step);
+  return { ...pattern, metadata: { ...pattern.metadata, tempoMap: tempoMap.length > 0 ? tempoMap : undefined } };
+};
+
+// Reads a tempo cell from a CSV: "132" jumps to 132 BPM, "~132" or "132 ramp" glides there from the previous change
+export const parseTempoCell = (cell: string): Omit<TempoEvent, 'step'> | null => {
+  const value = cell.trim().toLowerCase();
+  const match = value.match(/^(~)?\s*(\d+(?:\.\d+)?)\s*(ramp)?$/);
+  if (!match) return null;
+  const bpm = parseFloat(match[2]);
+  if (bpm < MIN_TEMPO || bpm > MAX_TEMPO) return null;
+  return match[1] || match[3] ? { bpm, ramp: true } : { bpm };
+};
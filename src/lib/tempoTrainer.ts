@@ -0,0 +1,142 @@
+import { DrumPattern, InstrumentId } from '@/lib/drumPattern';
+
+export type TempoTrainerUnit = 'passes' | 'bars';
+
+// Speed building: play each tempo a number of times, then move up by the increment until the target
+export interface TempoTrainerSettings {
+  enabled: boolean;
+  startBpm: number;
+  targetBpm: number;
+  increment: number;
+  repeats: number; // Clean passes or bars to play before moving on
+  unit: TempoTrainerUnit; // A pass is one time through the practice loop, or the whole pattern without one
+  stepBack: boolean; // Drop back a tempo when the listener hears a poor pass
+  minAccuracy: number; // 0-1, share of the pattern's hits the listener must hear on time for a pass to count
+}
+
+export const DEFAULT_TEMPO_TRAINER: TempoTrainerSettings = {
+  enabled: false,
+  startBpm: 80,
+  targetBpm: 120,
+  increment: 5,
+  repeats: 2,
+  unit: 'passes',
+  stepBack: false,
+  minAccuracy: 0.8,
+};
+
+// Same range as the BPM buttons
+export const MIN_TRAINER_BPM = 60;
+export const MAX_TRAINER_BPM = 200;
+
+export interface TempoTrainerProgress {
+  stage: number; // Index into getTrainerStages
+  repeats: number; // Clean passes or bars played at this stage
+  stepBacks: number;
+  highestStage: number;
+}
+
+export const INITIAL_TRAINER_PROGRESS: TempoTrainerProgress = { stage: 0, repeats: 0, stepBacks: 0, highestStage: 0 };
+
+const clampTrainerBpm = (bpm: number) => Math.max(MIN_TRAINER_BPM, Math.min(MAX_TRAINER_BPM, Math.round(bpm)));
+
+// Every tempo from start to target; the last step is shortened so the target is always reached
+export const getTrainerStages = (settings: TempoTrainerSettings): number[] => {
+  const start = clampTrainerBpm(settings.startBpm);
+  const target = clampTrainerBpm(settings.targetBpm);
+  const increment = Math.max(1, Math.abs(settings.increment)) * Math.sign(target - start);
+  if (increment === 0) return [start];
+
+  const stages: number[] = [];
+  for (let bpm = start; increment > 0 ? bpm < target : bpm > target; bpm += increment) stages.push(bpm);
+  stages.push(target);
+  return stages;
+};
+
+export const getTrainerTempo = (settings: TempoTrainerSettings, progress: TempoTrainerProgress): number => {
+  const stages = getTrainerStages(settings);
+  return stages[Math.min(progress.stage, stages.length - 1)];
+};
+
+export const isTrainerComplete = (settings: TempoTrainerSettings, progress: TempoTrainerProgress): boolean =>
+  progress.stage >= getTrainerStages(settings).length - 1;
+
+// Count a finished pass or bar. accuracy is null when nobody was listening, and then every pass counts as clean
+export const advanceTempoTrainer = (
+  settings: TempoTrainerSettings,
+  progress: TempoTrainerProgress,
+  accuracy: number | null
+): TempoTrainerProgress => {
+  const isClean = accuracy === null || accuracy >= settings.minAccuracy;
+  if (!isClean) {
+    return settings.stepBack
+      ? { ...progress, stage: Math.max(0, progress.stage - 1), repeats: 0, stepBacks: progress.stepBacks + 1 }
+      : progress;
+  }
+
+  const repeats = progress.repeats + 1;
+  if (repeats < Math.max(1, settings.repeats) || isTrainerComplete(settings, progress)) {
+    return { ...progress, repeats };
+  }
+  const stage = progress.stage + 1;
+  return { ...progress, stage, repeats: 0, highestStage: Math.max(progress.highestStage, stage) };
+};
+
+export const describeTrainerProgress = (settings: TempoTrainerSettings, progress: TempoTrainerProgress): string => {
+  const stages = getTrainerStages(settings);
+  const highest = stages[Math.min(progress.highestStage, stages.length - 1)];
+  return `Tempo trainer reached ${highest} BPM (stage ${progress.highestStage + 1} of ${stages.length})` +
+    (progress.stepBacks > 0 ? `, stepped back ${progress.stepBacks} time${progress.stepBacks === 1 ? '' : 's'}` : '');
+};
+
+// Instruments the drum listener can tell apart, by the type it reports
+export const LISTENER_INSTRUMENTS: Record<string, InstrumentId> = {
+  kick: 'Kick',
+  snare: 'Snare',
+  hihat: 'HH Closed',
+  openhat: 'HH Open',
+};
+
+export interface PlayedStep {
+  step: number;
+  timestamp: number; // Wall-clock milliseconds, the listener's clock
+}
+
+export interface HeardHit {
+  type: string;
+  timestamp: number;
+}
+
+// How far a heard hit may be from the step it is matched to
+export const ACCURACY_WINDOW_MS = 120;
+
+// Share of the pattern's hits in the played steps that the listener heard, on time and on the right drum.
+// null when those steps hold nothing the listener could hear
+export const scorePass = (pattern: DrumPattern, played: PlayedStep[], heard: HeardHit[]): number | null => {
+  const listenable = new Set(Object.values(LISTENER_INSTRUMENTS));
+  const expected = played.flatMap(({ step, timestamp }) =>
+    Object.entries(pattern.tracks)
+      .filter(([instrument, steps]) => listenable.has(instrument as InstrumentId) && steps?.[step]?.active)
+      .map(([instrument]) => ({ instrument, timestamp }))
+  );
+  if (expected.length === 0) return null;
+
+  // Each heard hit is matched at most once, to the nearest expected hit of its drum
+  const unmatched = heard.filter(hit => LISTENER_INSTRUMENTS[hit.type]);
+  let matched = 0;
+  expected.forEach(({ instrument, timestamp }) => {
+    let best = -1;
+    unmatched.forEach((hit, index) => {
+      const distance = Math.abs(hit.timestamp - timestamp);
+      if (LISTENER_INSTRUMENTS[hit.type] === instrument && distance <= ACCURACY_WINDOW_MS &&
+        (best < 0 || distance < Math.abs(unmatched[best].timestamp - timestamp))) {
+        best = index;
+      }
+    });
+    if (best >= 0) {
+      unmatched.splice(best, 1);
+      matched++;
+    }
+  });
+  return matched / expected.length;
+};
@@ -0,0 +1,91 @@
+// Pitch-preserving playback of a decoded track through public/worklets/time-stretch-processor.js
+export type TimeStretchQuality = 'fast' | 'balanced' | 'high';
+
+interface TimeStretchSettings {
+  label: string;
+  frameSize: number; // Samples per analysis frame; longer keeps tones smoother but smears attacks and reacts later
+  searchRange: number; // How far either side of the nominal position a frame may shift to line up waveforms
+  searchStride: number; // Correlate every nth sample; trades accuracy for CPU
+}
+
+export const TIME_STRETCH_QUALITIES: Record<TimeStretchQuality, TimeStretchSettings> = {
+  fast: { label: 'Fast (low latency)', frameSize: 1024, searchRange: 256, searchStride: 4 },
+  balanced: { label: 'Balanced', frameSize: 2048, searchRange: 512, searchStride: 2 },
+  high: { label: 'High quality', frameSize: 4096, searchRange: 1024, searchStride: 2 },
+};
+
+export const DEFAULT_TIME_STRETCH_QUALITY: TimeStretchQuality = 'balanced';
+
+const TIME_STRETCH_PROCESSOR = 'time-stretch-processor';
+const TIME_STRETCH_MODULE_URL = `${import.meta.env.BASE_URL || '/'}worklets/${TIME_STRETCH_PROCESSOR}.js`;
+
+// Seconds a tempo change takes to be heard: a frame already in flight finishes at the old rate
+export const getTimeStretchLatency = (quality: TimeStretchQuality, sampleRate: number): number =>
+  TIME_STRETCH_QUALITIES[quality].frameSize / sampleRate;
+
+// The module is added once per context
+const workletModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+export const loadTimeStretchWorklet = (context: BaseAudioContext): Promise<void> => {
+  if (!context.audioWorklet) return Promise.reject(new Error('AudioWorklet is not supported'));
+
+  let loading = workletModules.get(context);
+  if (!loading) {
+    loading = context.audioWorklet.addModule(TIME_STRETCH_MODULE_URL);
+    loading.catch(() => workletModules.delete(context));
+    workletModules.set(context, loading);
+  }
+  return loading;
+};
+
+export interface TimeStretchPlayer {
+  node: AudioWorkletNode;
+  buffer: AudioBuffer;
+  start: (time: number, position: number, rate: number, loop: boolean) => void;
+  stop: (time: number) => void;
+  setQuality: (quality: TimeStretchQuality) => void;
+}
+
+const getQualityMessage = (quality: TimeStretchQuality) => {
+  const { frameSize, searchRange, searchStride } = TIME_STRETCH_QUALITIES[quality];
+  return { frameSize, searchRange, searchStride };
+};
+
+// The worklet reads the track at the context's rate, so a buffer decoded elsewhere must match it
+export const canTimeStretch = (context: BaseAudioContext, buffer: AudioBuffer): boolean =>
+  !!context.audioWorklet && buffer.sampleRate === context.sampleRate;
+
+export interface TimeStretchStart {
+  time: number;
+  position: number;
+  rate: number;
+  loop: boolean;
+}
+
+// Copy the track into the worklet once; every start after that is just a timed message.
+// An initial start is applied by the processor itself, so it cannot arrive late the way a message can.
+// Call loadTimeStretchWorklet first
+export const createTimeStretchPlayer = (
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  quality: TimeStretchQuality,
+  play?: TimeStretchStart
+): TimeStretchPlayer => {
+  const node = new AudioWorkletNode(context, TIME_STRETCH_PROCESSOR, {
+    numberOfInputs: 0,
+    outputChannelCount: [buffer.numberOfChannels],
+    processorOptions: {
+      ...getQualityMessage(quality),
+      channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel)),
+      ...(play ? { play } : {}),
+    },
+  });
+
+  return {
+    node,
+    buffer,
+    start: (time, position, rate, loop) => node.port.postMessage({ type: 'play', time, position, rate, loop }),
+    stop: time => node.port.postMessage({ type: 'stop', time }),
+    setQuality: nextQuality => node.port.postMessage({ type: 'quality', ...getQualityMessage(nextQuality) }),
+  };
+};
@@ -0,0 +1,68 @@
+import { InstrumentId } from '@/lib/drumPattern';
+import { KitInstrument } from '@/lib/drumKit';
+import { DrumVoice } from '@/lib/drumVoice';
+
+// Choke groups a user can put an instrument in; "hats" is what kits use for open and closed hats
+export const CHOKE_GROUP_OPTIONS: { id: string; label: string }[] = [
+  { id: 'hats', label: 'Hats' },
+  { id: 'cymbals', label: 'Cymbals' },
+  { id: 'a', label: 'Group A' },
+  { id: 'b', label: 'Group B' },
+];
+
+// Used when the kit does not say: open and closed hat (pedal hat imports as closed) choke each other
+export const DEFAULT_CHOKE_GROUPS: Partial<Record<InstrumentId, string>> = {
+  'HH Closed': 'hats',
+  'HH Open': 'hats',
+};
+
+// User choices per instrument; null takes an instrument out of every group
+export type ChokeGroupOverrides = Partial<Record<InstrumentId, string | null>>;
+
+export const getChokeGroup = (
+  instrument: InstrumentId,
+  kitInstrument: KitInstrument | undefined,
+  overrides: ChokeGroupOverrides = {}
+): string | null => {
+  if (overrides[instrument] !== undefined) return overrides[instrument]!;
+  return kitInstrument?.chokeGroup || DEFAULT_CHOKE_GROUPS[instrument] || null;
+};
+
+// Fade applied to a choked voice; short enough to sound like a hand on the cymbal, long enough not to click
+const CHOKE_TIME_CONSTANT = 0.015;
+const CHOKE_STOP_DELAY = CHOKE_TIME_CONSTANT * 6;
+
+interface ActiveVoice extends DrumVoice {
+  group: string | null;
+  startTime: number;
+}
+
+const chokeVoice = (voice: ActiveVoice, time: number) => {
+  voice.output.gain.cancelScheduledValues(time);
+  voice.output.gain.setTargetAtTime(0, time, CHOKE_TIME_CONSTANT);
+  voice.source.stop(time + CHOKE_STOP_DELAY);
+};
+
+// Tracks sounding voices so a new hit can cut off the others in its choke group.
+// Hits are scheduled ahead of time, so a voice is only choked by one that starts after it
+export const createVoiceManager = () => {
+  let voices: ActiveVoice[] = [];
+
+  const addVoice = (voice: DrumVoice, group: string | null, startTime: number) => {
+    if (group) {
+      const choked = voices.filter(other => other.group === group && other.startTime < startTime);
+      choked.forEach(other => chokeVoice(other, startTime));
+      voices = voices.filter(other => !choked.includes(other));
+    }
+
+    const active: ActiveVoice = { ...voice, group, startTime };
+    voices.push(active);
+    voice.source.addEventListener('ended', () => {
+      voices = voices.filter(other => other !== active);
+    });
+  };
+
+  return { addVoice };
+};
+
+export type VoiceManager = ReturnType<typeof createVoiceManager>;